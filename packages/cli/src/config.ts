@@ -0,0 +1,198 @@
+/**
+ * cachebro.config.json: found by walking up from the working directory and
+ * merged over the user's own file in $XDG_CONFIG_HOME/cachebro/config.json.
+ * Environment variables override both, and flags override everything.
+ */
+
+import { z } from "zod";
+import { TOKENIZER_PRESETS, type CacheConfig, type TokenizerPreset } from "@turso/cachebro";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { delimiter, dirname, join, resolve } from "path";
+
+export const CONFIG_FILE = "cachebro.config.json";
+
+const count = z.number().int().nonnegative();
+const paths = z.array(z.string()).nonempty();
+
+const configSchema = z.object({
+  $schema: z.string(),
+  /** Where the database and event log live */
+  cacheDir: z.string(),
+  watch: z.object({
+    roots: paths,
+    debounceMs: count,
+  }).partial().strict(),
+  diff: z.object({
+    context: count,
+    maxLines: count,
+    timeoutMs: count,
+  }).partial().strict(),
+  ignore: z.object({
+    files: z.array(z.string()),
+    patterns: z.array(z.string()),
+    reads: z.boolean(),
+  }).partial().strict(),
+  output: z.object({
+    maxTokens: count,
+    tokenizer: z.string().refine((name) => TOKENIZER_PRESETS.includes(name as TokenizerPreset), {
+      message: `Expected one of: ${TOKENIZER_PRESETS.join(", ")}`,
+    }),
+  }).partial().strict(),
+  access: z.object({
+    roots: paths,
+    sensitive: z.array(z.string()),
+    onSensitive: z.enum(["refuse", "uncached"]),
+  }).partial().strict(),
+  redaction: z.object({
+    builtin: z.boolean(),
+    patterns: z.record(z.string().refine(isRegExp, { message: "Not a valid regular expression" })),
+  }).partial().strict(),
+  selection: z.object({
+    margin: z.number().min(0).max(1),
+  }).partial().strict(),
+  staleness: z.object({
+    maxAgeMs: count,
+    maxReadsSince: count,
+  }).partial().strict(),
+  retention: z.object({
+    keepVersionsPerPath: count,
+    sessionTtlMs: count,
+    maxDbBytes: count,
+    maxReadEvents: count,
+  }).partial().strict(),
+}).partial().strict();
+
+export type FileConfig = z.infer<typeof configSchema>;
+
+/** Environment variables, the setting each overrides, and how its text becomes a value. */
+const ENV_SETTINGS: Record<string, { path: string; value: (text: string, cwd: string) => unknown }> = {
+  CACHEBRO_DIR: { path: "cacheDir", value: (text, cwd) => resolve(cwd, text) },
+  CACHEBRO_MAX_TOKENS: { path: "output.maxTokens", value: Number },
+  CACHEBRO_TOKENIZER: { path: "output.tokenizer", value: String },
+  CACHEBRO_STALE_MS: { path: "staleness.maxAgeMs", value: Number },
+  CACHEBRO_STALE_READS: { path: "staleness.maxReadsSince", value: Number },
+  CACHEBRO_ROOTS: { path: "access.roots", value: (text, cwd) => text.split(delimiter).filter(Boolean).map((r) => resolve(cwd, r)) },
+  CACHEBRO_SENSITIVE: { path: "access.onSensitive", value: String },
+  CACHEBRO_REDACT: { path: "redaction.builtin", value: (text) => text !== "off" },
+  CACHEBRO_IGNORE_READS: { path: "ignore.reads", value: (text) => text === "on" },
+};
+
+export interface Settings {
+  /** Where the database and event log live */
+  cacheDir: string;
+  /** What createCache() gets besides the database path and session */
+  cache: Omit<CacheConfig, "dbPath" | "sessionId"> & { maxResponseTokens: number };
+  /** Config files applied, lowest precedence first */
+  files: string[];
+  /** The merged file settings, paths resolved */
+  config: FileConfig;
+}
+
+/** The user-level file: $XDG_CONFIG_HOME/cachebro/config.json, or ~/.config when unset. */
+export function userConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), ".config"), "cachebro", "config.json");
+}
+
+/** The nearest cachebro.config.json in `cwd` or a directory above it. */
+export function findProjectConfig(cwd: string): string | undefined {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const file = join(dir, CONFIG_FILE);
+    if (existsSync(file)) return file;
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+/**
+ * Read one config file. Relative paths in it are resolved against its own
+ * directory, so a project file means the same from any subdirectory.
+ */
+export function readConfigFile(file: string): FileConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (e: any) {
+    throw new Error(`${file}: ${e instanceof SyntaxError ? `not valid JSON: ${e.message}` : e.message}`);
+  }
+  const config = validate(raw, file, (path) => path || "(top level)");
+  const base = dirname(file);
+  const at = (p: string) => resolve(base, p);
+  if (config.cacheDir) config.cacheDir = at(config.cacheDir);
+  if (config.watch?.roots) config.watch.roots = config.watch.roots.map(at) as [string, ...string[]];
+  if (config.access?.roots) config.access.roots = config.access.roots.map(at) as [string, ...string[]];
+  return config;
+}
+
+/** Merge the user file, the project file and the environment. */
+export function loadSettings(cwd: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): Settings {
+  const files = [userConfigPath(env), findProjectConfig(cwd)].filter((f): f is string => !!f && existsSync(f));
+  let config: FileConfig = {};
+  for (const file of files) config = merge(config, readConfigFile(file));
+  const effective = merge(config, readEnvConfig(env, cwd));
+
+  return {
+    cacheDir: resolve(cwd, effective.cacheDir ?? ".cachebro"),
+    cache: {
+      watchPaths: config.watch?.roots ?? [cwd],
+      watchDebounceMs: config.watch?.debounceMs,
+      diff: config.diff,
+      selection: config.selection,
+      maxResponseTokens: effective.output?.maxTokens ?? 50_000,
+      tokenizer: effective.output?.tokenizer as TokenizerPreset | undefined,
+      staleness: { ...effective.staleness },
+      access: { ...effective.access },
+      redaction: { ...effective.redaction },
+      ignore: { ...effective.ignore },
+      retention: config.retention,
+    },
+    files,
+    config,
+  };
+}
+
+/**
+ * The settings given by environment variables, checked against the same
+ * schema as the files. Unset and empty variables are left out.
+ */
+function readEnvConfig(env: NodeJS.ProcessEnv, cwd: string): FileConfig {
+  const raw: Record<string, any> = {};
+  for (const [name, { path, value }] of Object.entries(ENV_SETTINGS)) {
+    const text = env[name];
+    if (!text) continue;
+    const [section, key] = path.split(".");
+    if (key) (raw[section] ??= {})[key] = value(text, cwd);
+    else raw[section] = value(text, cwd);
+  }
+  // Problems are reported by variable name, not by the setting it maps to
+  return validate(raw, "environment", (path) =>
+    Object.keys(ENV_SETTINGS).find((name) => path === ENV_SETTINGS[name].path || path.startsWith(`${ENV_SETTINGS[name].path}.`)) ?? path);
+}
+
+/** Parse against the schema, or throw naming the source and each problem. */
+function validate(raw: unknown, source: string, name: (path: string) => string): FileConfig {
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `  ${name(i.path.join("."))}: ${i.message}`);
+    throw new Error(`${source}: invalid configuration\n${issues.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/** Objects merge key by key; anything else, arrays included, is replaced. */
+function merge<T extends Record<string, any>>(base: T, over: T): T {
+  const out: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(over)) {
+    const plain = (v: unknown) => typeof v === "object" && v !== null && !Array.isArray(v);
+    out[key] = plain(value) && plain(out[key]) ? merge(out[key], value) : value;
+  }
+  return out as T;
+}
+
+function isRegExp(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Small helpers shared by the commands and the MCP server.
+ */
+
+/** The value after `--name` on the command line, if the flag is given. */
+export function option(name: string, argv: string[] = process.argv): string | undefined {
+  const flag = argv.indexOf(name);
+  return flag > 0 ? argv[flag + 1] : undefined;
+}
+
+/** How long ago a timestamp was, roughly: "42s ago", "3h ago". 0 means it never happened. */
+export function ago(ms: number): string {
+  if (ms === 0) return "never";
+  const s = Math.max(0, Math.round((Date.now() - ms) / 1000));
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.round(s / 60)}m ago`;
+  if (s < 86400) return `${Math.round(s / 3600)}h ago`;
+  return `${Math.round(s / 86400)}d ago`;
+}
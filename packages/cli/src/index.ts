@@ -1,16 +1,40 @@
 #!/usr/bin/env bun
+import type { ReadEvent, TokenizerPreset } from "@turso/cachebro";
+import { loadSettings, type Settings } from "./config.js";
+import { ago, option } from "./helpers.js";
 import { startMcpServer } from "./mcp.js";
 
 const command = process.argv[2];
 
+/** Config files merged with the environment. An invalid file or variable ends the command. */
+function settings(): Settings {
+  try {
+    return loadSettings();
+  } catch (e: any) {
+    console.error(`cachebro: ${e.message}`);
+    process.exit(1);
+  }
+}
+
 if (!command || command === "serve") {
-  await startMcpServer();
+  const port = option("--http");
+  const idle = /^(\d+)([smh])$/.exec(option("--idle-timeout") ?? "30m");
+  if ((port !== undefined && !/^\d+$/.test(port)) || !idle) {
+    console.error("Usage: cachebro serve --http <port> [--host <address>] [--idle-timeout <n>(s|m|h)]");
+    process.exit(1);
+  }
+  const idleMs = Number(idle[1]) * { s: 1000, m: 60_000, h: 3_600_000 }[idle[2] as "s" | "m" | "h"];
+  await startMcpServer({
+    settings: settings(),
+    session: option("--session"),
+    http: port !== undefined ? { port: Number(port), host: option("--host"), idleMs } : undefined,
+  });
 } else if (command === "status") {
   const { createCache } = await import("@turso/cachebro");
-  const { resolve, join } = await import("path");
+  const { join } = await import("path");
   const { existsSync } = await import("fs");
 
-  const cacheDir = resolve(process.env.CACHEBRO_DIR ?? ".cachebro");
+  const { cacheDir, cache: configured } = settings();
   const dbPath = join(cacheDir, "cache.db");
 
   if (!existsSync(dbPath)) {
@@ -18,15 +42,273 @@ if (!command || command === "serve") {
     process.exit(0);
   }
 
-  const { cache } = createCache({ dbPath, sessionId: "cli-status" });
+  const { cache } = createCache({ dbPath, sessionId: "cli-status", tokenizer: configured.tokenizer });
   await cache.init();
   const stats = await cache.getStats();
 
-  console.log(`cachebro status:`);
-  console.log(`  Files tracked:          ${stats.filesTracked}`);
-  console.log(`  Tokens saved (total):   ~${stats.tokensSaved.toLocaleString()}`);
+  if (process.argv.includes("--json")) {
+    // Per-session fields would describe this CLI's own, empty session
+    const { sessionTokensSaved, sessionReads, ...overall } = stats;
+    console.log(JSON.stringify(overall, null, 2));
+  } else {
+    const { formatReads, formatTopFiles } = await import("./mcp.js");
+    console.log(`cachebro status:`);
+    console.log(`  Files tracked:          ${stats.filesTracked}`);
+    console.log(`  Tokens saved (total):   ${stats.tokensSaved.toLocaleString()} (${stats.tokenizer})`);
+    for (const [name, saved] of Object.entries(stats.tokensSavedByTokenizer)) {
+      if (name !== stats.tokenizer) console.log(`                          ${saved.toLocaleString()} (${name}, earlier)`);
+    }
+    for (const line of [...formatReads(stats.reads, "all sessions"), ...formatTopFiles(stats)]) console.log(line);
+  }
+
+  await cache.close();
+} else if (command === "gc") {
+  const { createCache } = await import("@turso/cachebro");
+  const { join } = await import("path");
+  const { existsSync } = await import("fs");
+  const { EVENT_LOG } = await import("./mcp.js");
+
+  const dryRun = process.argv.includes("--dry-run");
+  const { cacheDir, cache: configured } = settings();
+  const dbPath = join(cacheDir, "cache.db");
+
+  if (!existsSync(dbPath)) {
+    console.log("No cachebro database found. Nothing to collect.");
+    process.exit(0);
+  }
+
+  const { cache } = createCache({ dbPath, sessionId: "cli-gc", eventLog: join(cacheDir, EVENT_LOG), retention: configured.retention });
+  await cache.init();
+  const result = await cache.gc({ dryRun });
+
+  const formatBytes = (n: number) =>
+    n >= 1024 * 1024 ? `${(n / (1024 * 1024)).toFixed(1)} MB` : `${(n / 1024).toFixed(1)} KB`;
+
+  console.log(`cachebro gc${dryRun ? " (dry run, nothing deleted)" : ""}:`);
+  console.log(`  Sessions expired:       ${result.sessionsExpired}`);
+  console.log(`  Versions removed:       ${result.versionsRemoved}`);
+  console.log(`  Read events removed:    ${result.eventsRemoved}`);
+  console.log(`  Space freed:            ${formatBytes(result.bytesFreed)}`);
+  console.log(`  Space remaining:        ${formatBytes(result.bytesRemaining)}`);
+  console.log(`  Database file:          ${formatBytes(result.fileBytes)}`);
+
+  await cache.close();
+} else if (command === "sessions") {
+  const { createCache } = await import("@turso/cachebro");
+  const { join } = await import("path");
+  const { existsSync, writeFileSync } = await import("fs");
+  const { RESUME_FILE } = await import("./mcp.js");
+
+  const sub = process.argv[3] ?? "list";
+  const id = process.argv[4];
+  const { cacheDir, cache: configured } = settings();
+  const dbPath = join(cacheDir, "cache.db");
+
+  if (!existsSync(dbPath)) {
+    console.log("No cachebro database found. Run 'cachebro serve' to start caching.");
+    process.exit(0);
+  }
+
+  const { cache } = createCache({ dbPath, sessionId: "cli-sessions", tokenizer: configured.tokenizer });
+  await cache.init();
+
+  const requireId = () => {
+    if (!id) {
+      console.error(`Usage: cachebro sessions ${sub} <session-id>`);
+      process.exit(1);
+    }
+    return id;
+  };
+
+  if (sub === "list") {
+    const sessions = await cache.listSessions();
+    if (sessions.length === 0) {
+      console.log("No sessions.");
+    } else {
+      console.log(`${"SESSION".padEnd(38)} ${"FILES".padStart(6)}  ${"LAST ACTIVE".padEnd(12)} TOKENS SAVED`);
+      for (const s of sessions) {
+        console.log(`${s.sessionId.padEnd(38)} ${String(s.filesRead).padStart(6)}  ${ago(s.lastActivity).padEnd(12)} ~${s.tokensSaved.toLocaleString()}`);
+      }
+    }
+  } else if (sub === "show") {
+    const session = await cache.getSession(requireId());
+    if (!session) {
+      console.error(`No session named ${id}.`);
+      process.exit(1);
+    }
+    console.log(`Session ${session.sessionId}:`);
+    console.log(`  Files read:             ${session.filesRead}`);
+    console.log(`  Last active:            ${ago(session.lastActivity)}`);
+    console.log(`  Tokens saved:           ~${session.tokensSaved.toLocaleString()}`);
+    for (const f of session.files) {
+      console.log(`    ${ago(f.readAt).padEnd(10)} ${f.path}`);
+    }
+  } else if (sub === "resume") {
+    const session = await cache.getSession(requireId());
+    if (!session) {
+      console.error(`No session named ${id}.`);
+      process.exit(1);
+    }
+    writeFileSync(join(cacheDir, RESUME_FILE), `${session.sessionId}\n`);
+    console.log(`The next 'cachebro serve' in this project will resume session ${session.sessionId} (${session.filesRead} files read).`);
+  } else if (sub === "delete") {
+    const deleted = await cache.deleteSession(requireId());
+    if (!deleted) {
+      console.error(`No session named ${id}.`);
+      process.exit(1);
+    }
+    console.log(`Deleted session ${id}.`);
+  } else if (sub === "prune") {
+    const spec = process.argv.includes("--older-than") ? option("--older-than") : "7d";
+    const match = /^(\d+)([smhd])$/.exec(spec ?? "");
+    if (!match) {
+      console.error("Usage: cachebro sessions prune [--older-than <n>(s|m|h|d)]");
+      process.exit(1);
+    }
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as "s" | "m" | "h" | "d"];
+    const pruned = await cache.pruneSessions(Number(match[1]) * unit);
+    console.log(`Pruned ${pruned.length} session${pruned.length === 1 ? "" : "s"} idle for more than ${spec}.`);
+  } else {
+    console.error(`Unknown sessions command: ${sub}. Run 'cachebro help' for usage.`);
+    process.exit(1);
+  }
 
   await cache.close();
+} else if (command === "log") {
+  const { createCache, pathMatcher } = await import("@turso/cachebro");
+  const { join, relative } = await import("path");
+  const { existsSync, readFileSync, statSync, openSync, readSync, closeSync } = await import("fs");
+  const { EVENT_LOG } = await import("./mcp.js");
+
+  const session = option("--session");
+  const path = option("--path");
+  const jsonl = process.argv.includes("--jsonl");
+  const follow = process.argv.includes("--follow");
+  // An export gets everything; the terminal view gets the latest screenful
+  const limit = Number(option("--limit") ?? (jsonl ? 0 : 50));
+  const { cacheDir } = settings();
+  const dbPath = join(cacheDir, "cache.db");
+  const logPath = join(cacheDir, EVENT_LOG);
+
+  if (!follow && !existsSync(dbPath)) {
+    console.log("No cachebro database found. Run 'cachebro serve' to start caching.");
+    process.exit(0);
+  }
+
+  const matches = path ? pathMatcher([path]) : () => true;
+  const wanted = (e: ReadEvent) => (!session || e.sessionId === session) && matches(e.path);
+  const parse = (text: string): ReadEvent[] => text.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+  const print = (e: ReadEvent) => {
+    if (jsonl) {
+      console.log(JSON.stringify(e));
+      return;
+    }
+    const time = new Date(e.timestamp).toISOString().replace("T", " ").slice(0, 19);
+    const start = e.offset ?? 1;
+    const range = e.offset || e.limit ? `:${start}-${e.limit ? start + e.limit - 1 : "end"}` : "";
+    const versions = `${e.oldHash?.slice(0, 8) ?? "-"} -> ${e.newHash?.slice(0, 8) ?? "-"}`;
+    const outcome = e.kind === "error"
+      ? `error: ${e.error}`
+      : `${e.kind}, ${e.tokensReturned.toLocaleString()} tokens returned, ${e.tokensSaved.toLocaleString()} saved`;
+    console.log(`${time}  ${e.sessionId}  ${relative(process.cwd(), e.path) || e.path}${range}  ${versions}  ${outcome}`);
+  };
+
+  // A running server keeps the database to itself; its event log has the same events
+  let history: ReadEvent[];
+  let offset = 0;
+  let lastId = 0;
+  if (follow) {
+    const read = existsSync(logPath) ? readFileSync(logPath, "utf-8") : "";
+    // A line still being written is picked up by the first poll
+    const text = read.slice(0, read.lastIndexOf("\n") + 1);
+    const logged = parse(text);
+    offset = Buffer.byteLength(text);
+    lastId = logged.at(-1)?.id ?? 0;
+    history = logged.filter(wanted);
+  } else {
+    try {
+      const { cache } = createCache({ dbPath, sessionId: "cli-log", tokenizer: "estimate" });
+      await cache.init();
+      history = await cache.getReadEvents({ sessionId: session, path });
+      await cache.close();
+    } catch {
+      history = existsSync(logPath) ? parse(readFileSync(logPath, "utf-8")).filter(wanted) : [];
+    }
+  }
+  for (const e of limit > 0 ? history.slice(-limit) : history) print(e);
+  if (!follow && history.length === 0) console.error("No reads logged.");
+
+  if (follow) {
+    let pending = "";
+    setInterval(() => {
+      if (!existsSync(logPath)) return;
+      const size = statSync(logPath).size;
+      // gc rewrote the log; events already printed are skipped by id
+      if (size < offset) {
+        offset = 0;
+        pending = "";
+      }
+      if (size === offset) return;
+      const chunk = Buffer.alloc(size - offset);
+      const fd = openSync(logPath, "r");
+      readSync(fd, chunk, 0, chunk.length, offset);
+      closeSync(fd);
+      offset = size;
+      const lines = (pending + chunk.toString("utf-8")).split("\n");
+      pending = lines.pop()!;
+      for (const e of parse(lines.join("\n"))) {
+        if (e.id <= lastId) continue;
+        lastId = e.id;
+        if (wanted(e)) print(e);
+      }
+    }, 500);
+  }
+} else if (command === "bench") {
+  const { parseTrace, replayTrace } = await import("@turso/cachebro");
+  const { existsSync, readFileSync } = await import("fs");
+
+  const tracePath = process.argv[3];
+  if (!tracePath || tracePath.startsWith("--") || !existsSync(tracePath)) {
+    console.error("Usage: cachebro bench <trace.jsonl> [--tokenizer <name>] [--max-tokens <n>] [--stale-reads <n>] [--diff-max-lines <n>] [--json]");
+    process.exit(1);
+  }
+  const number = (name: string) => {
+    const value = option(name);
+    return value === undefined ? undefined : Number(value);
+  };
+
+  let trace;
+  try {
+    trace = parseTrace(readFileSync(tracePath, "utf-8"));
+  } catch (e: any) {
+    console.error(`${tracePath}: ${e.message}`);
+    process.exit(1);
+  }
+  // The project's configuration, with flags varying it; replay has its own files and roots
+  const { watchPaths, access, ...configured } = settings().cache;
+  const diffMaxLines = number("--diff-max-lines");
+  const staleReads = number("--stale-reads");
+  const result = await replayTrace(trace, {
+    ...configured,
+    tokenizer: (option("--tokenizer") as TokenizerPreset | undefined) ?? configured.tokenizer,
+    maxResponseTokens: number("--max-tokens") ?? configured.maxResponseTokens,
+    staleness: staleReads === undefined ? configured.staleness : { ...configured.staleness, maxReadsSince: staleReads },
+    diff: diffMaxLines === undefined ? configured.diff : { ...configured.diff, maxLines: diffMaxLines },
+  });
+
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const percent = (returned: number, baseline: number) =>
+      baseline > 0 ? `${(100 * (1 - returned / baseline)).toFixed(1)}% saved` : "-";
+    console.log(`cachebro bench ${tracePath} (${result.reads} reads, ${result.tokenizer} tokens):`);
+    console.log(`  Without cachebro:       ${result.baselineTokens.toLocaleString()}`);
+    console.log(`  With cachebro:          ${result.returnedTokens.toLocaleString()} (${percent(result.returnedTokens, result.baselineTokens)})`);
+    console.log(`  ${"RESULT".padEnd(10)} ${"READS".padStart(6)} ${"WITHOUT".padStart(12)} ${"WITH".padStart(12)}`);
+    for (const [kind, t] of Object.entries(result.byKind)) {
+      console.log(`  ${kind.padEnd(10)} ${String(t.reads).padStart(6)} ${t.baselineTokens.toLocaleString().padStart(12)} ${t.returnedTokens.toLocaleString().padStart(12)}  ${percent(t.returnedTokens, t.baselineTokens)}`);
+    }
+  }
 } else if (command === "init") {
   const { existsSync, readFileSync, writeFileSync, mkdirSync } = await import("fs");
   const { join } = await import("path");
@@ -104,17 +386,73 @@ if (!command || command === "serve") {
   } else {
     console.log(`\nDone! Restart your editor to pick up cachebro.`);
   }
+} else if (command === "config") {
+  const sub = process.argv[3] ?? "show";
+  if (sub !== "show") {
+    console.error(`Unknown config command: ${sub}. Run 'cachebro help' for usage.`);
+    process.exit(1);
+  }
+  const { cacheDir, cache, files } = settings();
+  const effective = { cacheDir, ...cache };
+
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify({ files, ...effective }, null, 2));
+  } else {
+    console.log(`cachebro config:`);
+    if (files.length === 0) console.log(`  No config files; defaults and environment only`);
+    for (const file of files) console.log(`  Applied:                ${file}`);
+    console.log(`  Effective settings:`);
+    for (const line of JSON.stringify(effective, null, 2).split("\n")) console.log(`  ${line}`);
+  }
 } else if (command === "help" || command === "--help") {
   console.log(`cachebro - Agent file cache with diff tracking
 
 Usage:
   cachebro init      Auto-configure cachebro for your editor
   cachebro serve     Start the MCP server (default)
-  cachebro status    Show cache statistics
+                     (--session <name> to continue a named session)
+                     (--http <port> to serve many agents over HTTP at /mcp, each
+                      with its own session; --host <address>, default 127.0.0.1;
+                      --idle-timeout <n>(s|m|h) closes sessions left idle, default 30m)
+  cachebro status    Show cache statistics (--json for machine-readable output)
+  cachebro gc        Remove expired sessions and unreferenced file versions
+                     (--dry-run to report without deleting)
+  cachebro log       Show what each file read asked for and what cachebro returned
+                     (--session <id>, --path <file|dir|glob>, --limit <n>,
+                      --jsonl to export one JSON event per line, --follow to keep watching)
+  cachebro bench <trace.jsonl>
+                     Replay recorded reads and file snapshots against a fresh cache and
+                     compare tokens returned with plain reads (--tokenizer, --max-tokens,
+                     --stale-reads, --diff-max-lines to vary the configuration; --json)
+  cachebro sessions  List sessions with files read, last activity and tokens saved
+    show <id>        Show one session and the files it has read
+    resume <id>      Make the next 'cachebro serve' continue this session
+    delete <id>      Delete a session's read state
+    prune            Delete sessions idle for more than 7 days
+                     (--older-than <n>(s|m|h|d) to change the cutoff)
+  cachebro config show
+                     Show the config files in effect and the settings they produce (--json)
   cachebro help      Show this help message
 
+Configuration:
+  cachebro.config.json in the current directory or the nearest one above it, merged over
+  $XDG_CONFIG_HOME/cachebro/config.json (default: ~/.config/cachebro/config.json).
+  Environment variables override both.
+
 Environment:
-  CACHEBRO_DIR       Cache directory (default: .cachebro)`);
+  CACHEBRO_DIR         Cache directory (default: .cachebro)
+  CACHEBRO_SESSION     Session name; read state persists across restarts (default: new session per start)
+  CACHEBRO_MAX_TOKENS  Per-response token budget; larger reads are paged (default: 50000, 0 disables)
+  CACHEBRO_STALE_MS    Resend a file in full once its content was sent this many ms ago (default: off)
+  CACHEBRO_STALE_READS Resend a file in full after this many other reads (default: off)
+  CACHEBRO_TOKENIZER   Tokenizer for savings and budgets: cl100k, o200k or estimate (default: cl100k)
+  CACHEBRO_ROOTS       Directories files may be read from, separated by ':' (default: current directory)
+  CACHEBRO_SENSITIVE   Files that may hold secrets (.env, keys, ...): refuse, or uncached to serve them
+                       without storing them (default: refuse)
+  CACHEBRO_REDACT      Replace secrets (API keys, tokens, private keys) in file content with placeholders:
+                       on or off (default: on)
+  CACHEBRO_IGNORE_READS Answer reads of files excluded by .gitignore or .cachebroignore with "ignored file":
+                       on or off (default: off)`);
 } else {
   console.error(`Unknown command: ${command}. Run 'cachebro help' for usage.`);
   process.exit(1);
@@ -1,21 +1,20 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
-import { createCache } from "@turso/cachebro";
+import { createCache, formatRanges, type CacheStats, type CacheStore, type ReadCounters } from "@turso/cachebro";
+import { loadSettings, type Settings } from "./config.js";
+import { ago } from "./helpers.js";
 import { resolve } from "path";
-import { existsSync, mkdirSync, readFileSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, rmSync } from "fs";
 import { randomUUID } from "crypto";
+import { createServer, type ServerResponse } from "http";
 import { fileURLToPath } from "url";
-import { dirname, join } from "path";
+import { dirname, join, relative } from "path";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-function getCacheDir(): string {
-  const dir = resolve(process.env.CACHEBRO_DIR ?? ".cachebro");
-  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  return dir;
-}
 
 const packageJson = JSON.parse(
   readFileSync(join(__dirname, "../package.json"), "utf-8"),
@@ -24,23 +23,98 @@ const META_NAMESPACE = (
   packageJson.mcpName || "io.github.glommer/cachebro"
 ).replace(/\//g, ".");
 
-export async function startMcpServer(): Promise<void> {
-  const cacheDir = getCacheDir();
+/** Written by `cachebro sessions resume`; the next server start continues that session. */
+export const RESUME_FILE = "resume-session";
+
+/** Every read the server answers, one JSON object per line; `cachebro log --follow` tails it. */
+export const EVENT_LOG = "events.jsonl";
+
+/**
+ * Pick the session for this server: an explicit name (flag, then
+ * CACHEBRO_SESSION), then a pending `cachebro sessions resume`, otherwise
+ * a fresh one.
+ */
+function resolveSessionId(cacheDir: string, name?: string): string {
+  const explicit = name ?? process.env.CACHEBRO_SESSION;
+  if (explicit) return explicit;
+  const resumeFile = join(cacheDir, RESUME_FILE);
+  if (existsSync(resumeFile)) {
+    const resumed = readFileSync(resumeFile, "utf-8").trim();
+    rmSync(resumeFile, { force: true });
+    if (resumed) return resumed;
+  }
+  return randomUUID();
+}
+
+/** Read outcomes, hit rate and bytes saved, for cache_status and `cachebro status`. */
+export function formatReads(reads: ReadCounters, scope: string): string[] {
+  const hits = reads.unchanged + reads.diff + reads.partial;
+  const total = hits + reads.full + reads.forced;
+  if (total + reads.errors === 0) return [`  Reads (${scope}): none`];
+  const percent = (n: number, of: number) => (of > 0 ? `${Math.round((n / of) * 100)}%` : "n/a");
+  const kb = (n: number) => `${(n / 1024).toFixed(1)} KB`;
+  return [
+    `  Reads (${scope}): ${total.toLocaleString()}: ${reads.full} full, ${reads.unchanged} unchanged, ${reads.diff} diff, ${reads.partial} partial, ${reads.forced} forced, ${reads.errors} errors`,
+    `  Hit rate (${scope}): ${percent(hits, total)}`,
+    `  Returned vs. on disk (${scope}): ${kb(reads.bytesReturned)} of ${kb(reads.bytesOnDisk)} (${percent(reads.bytesReturned, reads.bytesOnDisk)})`,
+  ];
+}
+
+export function formatTopFiles(stats: CacheStats): string[] {
+  const lines: string[] = [];
+  const name = (path: string) => relative(process.cwd(), path) || path;
+  if (stats.mostRead.length > 0) {
+    lines.push(`  Most read:`);
+    for (const f of stats.mostRead) lines.push(`    ${name(f.path)}: ${f.reads} reads, ${f.hits} from cache`);
+  }
+  if (stats.mostChanged.length > 0) {
+    lines.push(`  Most changed:`);
+    for (const f of stats.mostChanged) lines.push(`    ${name(f.path)}: changed ${f.changes} times in ${f.reads} reads`);
+  }
+  return lines;
+}
+
+export async function startMcpServer(options?: { settings?: Settings; session?: string; http?: { port: number; host?: string; idleMs?: number } }): Promise<void> {
+  const settings = options?.settings ?? loadSettings();
+  const cacheDir = settings.cacheDir;
+  if (!existsSync(cacheDir)) mkdirSync(cacheDir, { recursive: true });
   const dbPath = resolve(cacheDir, "cache.db");
-  const watchPaths = [process.cwd()];
+  const maxResponseTokens = settings.cache.maxResponseTokens;
 
-  const sessionId = randomUUID();
+  // Over HTTP each connection gets a session of its own
+  const sessionId = options?.http ? "http" : resolveSessionId(cacheDir, options?.session);
   const { cache, watcher } = createCache({
+    ...settings.cache,
     dbPath,
     sessionId,
-    watchPaths,
+    eventLog: resolve(cacheDir, EVENT_LOG),
   });
 
   await cache.init();
 
+  // Collect what older sessions left behind. The current one is never expired.
+  await cache.gc().catch(() => {});
+
+  if (options?.http) {
+    const host = options.http.host ?? "127.0.0.1";
+    await serveHttp(cache, maxResponseTokens, options.http.port, host, options.http.idleMs ?? DEFAULT_HTTP_IDLE_MS);
+    console.error(`cachebro: serving MCP at http://${host.includes(":") ? `[${host}]` : host}:${options.http.port}/mcp`);
+  } else {
+    await createMcpServer(cache, maxResponseTokens).connect(new StdioServerTransport());
+  }
+
+  process.on("SIGINT", () => {
+    watcher.close();
+    cache.close();
+    process.exit(0);
+  });
+}
+
+/** The cachebro tools, answering for the store's session. */
+function createMcpServer(cache: CacheStore, maxResponseTokens: number): McpServer {
   const server = new McpServer({
     name: "cachebro",
-    version: "0.2.0",
+    version: packageJson.version,
   });
 
   server.tool(
@@ -48,9 +122,11 @@ export async function startMcpServer(): Promise<void> {
     `Read a file with caching. Use this tool INSTEAD of the built-in Read tool for reading files.
 On first read, returns full content and caches it — identical to Read.
 On subsequent reads, if the file hasn't changed, returns a short confirmation instead of the full content — saving significant tokens.
-If the file changed, returns only the diff (changed lines) instead of the full file.
+If the file changed, returns only the diff (changed lines) instead of the full file, unless the diff would be about as large: then the whole new file is returned. The first line says which one you got.
 Supports offset and limit for partial reads — and partial reads are also cached. If only lines outside the requested range changed, returns a short confirmation saving tokens.
 Set force=true to bypass the cache and get the full file content (use when you no longer have the original in context).
+Very large files are returned in pages: the response ends with a marker giving the offset to continue from, and later reads only send pages you have not seen.
+Files outside the project, and files that may hold secrets (.env, keys, credentials), are refused.
 ALWAYS prefer this over the Read tool. It is a drop-in replacement with caching benefits.`,
     {
       path: z.string().describe("Path to the file to read"),
@@ -76,14 +152,7 @@ ALWAYS prefer this over the Read tool. It is a drop-in replacement with caching
         const result = force
           ? await cache.readFileFull(path)
           : await cache.readFile(path, { offset, limit });
-        let text = "";
-        if (result.cached && result.linesChanged === 0) {
-          text = result.content;
-        } else if (result.cached && result.diff) {
-          text = `[cachebro: ${result.linesChanged} lines changed out of ${result.totalLines}]\n${result.diff}`;
-        } else {
-          text = result.content;
-        }
+        let text = result.content;
         if (result.cached) {
           const stats = await cache.getStats();
           text += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
@@ -107,6 +176,7 @@ ALWAYS prefer this over the Read tool. It is a drop-in replacement with caching
     "read_files",
     `Read multiple files at once with caching. Use this tool INSTEAD of the built-in Read tool when you need to read several files.
 Same behavior as read_file but batched. Returns cached/diff results for each file.
+The response token budget is shared across files; files cut short are listed at the end — continue them with read_file and offset.
 ALWAYS prefer this over multiple Read calls — it's faster and saves significant tokens.`,
     {
       paths: z.array(z.string()).describe("Paths to the files to read"),
@@ -114,28 +184,35 @@ ALWAYS prefer this over multiple Read calls — it's faster and saves significan
     async ({ paths }) => {
       const results: string[] = [];
       const successfulPaths: string[] = [];
-      for (const path of paths) {
+      const truncated: string[] = [];
+      // Share the budget: each file gets an equal part of what is left, so
+      // small files leave room for the ones after them
+      let remaining = maxResponseTokens;
+      for (const [i, path] of paths.entries()) {
+        const maxTokens =
+          maxResponseTokens > 0
+            ? Math.max(1, Math.floor(remaining / (paths.length - i)))
+            : 0;
         try {
-          const result = await cache.readFile(path);
-          let text = "";
-          if (result.cached && result.linesChanged === 0) {
-            text = `=== ${path} ===\n${result.content}`;
-          } else if (result.cached && result.diff) {
-            text = `=== ${path} [${result.linesChanged} lines changed out of ${result.totalLines}] ===\n${result.diff}`;
-          } else {
-            text = `=== ${path} ===\n${result.content}`;
+          const result = await cache.readFile(path, { maxTokens });
+          if (result.truncated) {
+            truncated.push(`${path} (offset=${result.nextOffset})`);
           }
-          results.push(text);
+          remaining -= cache.countTokens(result.content);
+          results.push(`=== ${path} ===\n${result.content}`);
           successfulPaths.push(path);
         } catch (e: any) {
           results.push(`=== ${path} ===\nError: ${e.message}`);
         }
       }
       let footer = "";
+      if (truncated.length > 0) {
+        footer += `\n\n[cachebro: response budget reached, truncated: ${truncated.join(", ")}. Continue with read_file and the given offset.]`;
+      }
       try {
         const stats = await cache.getStats();
         if (stats.sessionTokensSaved > 0) {
-          footer = `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
+          footer += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
         }
       } catch {}
       return {
@@ -152,6 +229,280 @@ ALWAYS prefer this over multiple Read calls — it's faster and saves significan
     },
   );
 
+  server.tool(
+    "edit_file",
+    `Edit a file by exact search and replace. Use this INSTEAD of your built-in edit tool for files you read with cachebro: your own edits then don't come back as a diff on the next read_file.
+Each edit replaces oldString with newString. oldString must match exactly (including indentation) and occur once, unless replaceAll is set. Edits apply in order, and none apply if any fails.
+If the file was changed by someone else since you last read it, the response includes those changes as a diff.`,
+    {
+      path: z.string().describe("Path to the file to edit"),
+      edits: z
+        .array(
+          z.object({
+            oldString: z.string().describe("Exact text to replace"),
+            newString: z.string().describe("Replacement text"),
+            replaceAll: z.boolean().optional().describe("Replace every occurrence"),
+          }),
+        )
+        .describe("Edits to apply in order"),
+    },
+    async ({ path, edits }) => {
+      try {
+        const result = await cache.editFile(path, edits);
+        return {
+          content: [{ type: "text" as const, text: result.content }],
+          _meta: {
+            [`${META_NAMESPACE}/files`]: [path],
+          },
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "write_file",
+    `Write a whole file, creating it (and its directories) if needed. Use this INSTEAD of your built-in write tool so the next read_file knows you already have the content.
+Existing files keep their encoding. If the file was changed by someone else since you last read it, the response shows what was overwritten.`,
+    {
+      path: z.string().describe("Path to the file to write"),
+      content: z.string().describe("The complete new file content"),
+    },
+    async ({ path, content }) => {
+      try {
+        const result = await cache.writeFile(path, content);
+        return {
+          content: [{ type: "text" as const, text: result.content }],
+          _meta: {
+            [`${META_NAMESPACE}/files`]: [path],
+          },
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "read_symbol",
+    `Read a single function, class, method, interface or variable from a TypeScript/JavaScript file by name, with caching.
+Use this INSTEAD of reading a whole file when you only need one declaration. Nested names use dots, e.g. "CacheStore.readFile".
+Returns the declaration with its line range. On later reads returns "unchanged" if the declaration itself is unchanged — even when other parts of the file changed or it moved — or a diff of just the declaration.
+Set force=true to get the full declaration again.`,
+    {
+      path: z.string().describe("Path to the TypeScript/JavaScript file"),
+      symbol: z
+        .string()
+        .describe("Declaration name, dotted for nested members (e.g. MyClass.method)"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("Bypass cache and return the full declaration"),
+    },
+    async ({ path, symbol, force }) => {
+      try {
+        const result = await cache.readSymbol(path, symbol, { force });
+        let text = result.content;
+        if (result.cached) {
+          const stats = await cache.getStats();
+          text += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
+        }
+        return {
+          content: [{ type: "text" as const, text }],
+          _meta: {
+            [`${META_NAMESPACE}/files`]: [path],
+          },
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "read_outline",
+    `Get the structure of a file without its bodies: imports, exports, and every class, function, method, interface and type with its signature and line number.
+Use this INSTEAD of read_file to orient yourself in an unfamiliar file, then use read_symbol or read_file with offset/limit for the parts you need.
+TypeScript/JavaScript is parsed exactly; other languages use a best-effort heuristic.
+On later calls returns "unchanged" if the file's structure is the same, or just the symbols that were added, removed or had their signature changed.
+Set force=true to get the full outline again.`,
+    {
+      path: z.string().describe("Path to the file to outline"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("Bypass cache and return the full outline"),
+    },
+    async ({ path, force }) => {
+      try {
+        const result = await cache.readOutline(path, { force });
+        let text = result.content;
+        if (result.cached) {
+          const stats = await cache.getStats();
+          text += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
+        }
+        return {
+          content: [{ type: "text" as const, text }],
+          _meta: {
+            [`${META_NAMESPACE}/files`]: [path],
+          },
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "list_directory",
+    `List a directory with caching. Use this INSTEAD of ls/find/glob tools to explore the project.
+Set depth to recurse (1 = only the directory's own entries) and glob to filter files, e.g. "*.ts" or "src/**/*.test.ts". Directories end in "/". Files excluded by .gitignore or .cachebroignore are left out, and node_modules is shown but not descended into.
+On later calls with the same arguments returns "unchanged" or only the entries that were added, removed or renamed.
+Set force=true to get the full listing again.`,
+    {
+      path: z.string().optional().describe("Directory to list. Default: current directory"),
+      depth: z
+        .number()
+        .optional()
+        .describe("Levels to descend (default 1)"),
+      glob: z.string().optional().describe("Only list files matching this glob"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("Bypass cache and return the full listing"),
+    },
+    async ({ path, depth, glob, force }) => {
+      const dir = path ?? ".";
+      try {
+        const result = await cache.listDirectory(dir, { depth, glob, force });
+        let text = result.content;
+        if (result.cached) {
+          const stats = await cache.getStats();
+          text += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
+        }
+        return {
+          content: [{ type: "text" as const, text }],
+          _meta: {
+            [`${META_NAMESPACE}/files`]: [dir],
+          },
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "search",
+    `Search file contents with caching. Use this INSTEAD of grep/ripgrep when searching the project.
+Literal by default; set regex=true for a regular expression. Filter files with glob (e.g. "*.ts") and add context lines with context. Files excluded by .gitignore or .cachebroignore are skipped.
+Repeating the same search returns "unchanged" if the results are the same, or only the matches that appeared or disappeared. Files that have not changed since an earlier search are not scanned again.
+Set force=true to get all matches again.`,
+    {
+      query: z.string().describe("Text or regular expression to search for"),
+      path: z.string().optional().describe("Directory to search. Default: current directory"),
+      glob: z.string().optional().describe("Only search files matching this glob"),
+      regex: z.boolean().optional().describe("Treat query as a regular expression"),
+      caseSensitive: z.boolean().optional().describe("Match case (default false)"),
+      context: z.number().optional().describe("Lines of context around each match"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("Bypass cache and return all matches"),
+    },
+    async ({ query, path, glob, regex, caseSensitive, context, force }) => {
+      try {
+        const result = await cache.search(query, { path, glob, regex, caseSensitive, context, force });
+        let text = result.content;
+        if (result.cached) {
+          const stats = await cache.getStats();
+          text += `\n\n[cachebro: ~${stats.sessionTokensSaved.toLocaleString()} tokens saved this session. Report this to the user when you complete their task.]`;
+        }
+        return {
+          content: [{ type: "text" as const, text }],
+        };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "forget_files",
+    `Tell cachebro that some files are no longer in your context, so their next read returns the full content instead of "unchanged" or a diff.
+Call this after your context was compacted or summarized and you no longer have the text of files you read earlier.
+Accepts file paths, directories (everything under them) and globs (e.g. "src/**/*.ts").`,
+    {
+      paths: z.array(z.string()).describe("Files, directories or globs to forget"),
+    },
+    async ({ paths }) => {
+      try {
+        const forgotten = await cache.forgetFiles(paths);
+        const text = forgotten.length === 0
+          ? "[cachebro: no matching files had been read this session]"
+          : `[cachebro: forgot ${forgotten.length} file${forgotten.length === 1 ? "" : "s"}; the next read of each returns full content]\n${forgotten.join("\n")}`;
+        return { content: [{ type: "text" as const, text }] };
+      } catch (e: any) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${e.message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "reset_session",
+    `Forget everything this session has read, so every file, outline, listing and search is returned in full again.
+Call this after your context was compacted or summarized. The cache itself is kept, so this costs nothing but the re-reads.`,
+    {},
+    async () => {
+      const files = await cache.resetSession();
+      return { content: [{ type: "text" as const, text: `[cachebro: session reset, ${files} files forgotten]` }] };
+    },
+  );
+
+  server.tool(
+    "session_manifest",
+    `List every file cachebro believes you have seen this session: its line count, when you last read it, whether it has changed on disk since, and which lines you saw if you only read part of it.
+Use this after your context was compacted or summarized to decide what to re-read, then call forget_files for the files you no longer have.`,
+    {},
+    async () => {
+      const manifest = await cache.getSessionManifest();
+      const count = (status: string) => manifest.files.filter((f) => f.status === status).length;
+      const lines = [
+        `[cachebro: session ${manifest.sessionId}, ${manifest.files.length} files seen, ${count("changed")} changed on disk since, ${count("deleted")} deleted]`,
+      ];
+      for (const f of manifest.files) {
+        const notes = [`${f.lines} lines`, `read ${ago(f.readAt)}`, `hash ${f.hash}`];
+        if (f.partial) notes.push(`only lines ${formatRanges(f.partial)} seen`);
+        if (f.status !== "unchanged") notes.push(f.status === "changed" ? "changed on disk since" : "deleted");
+        if (f.stale) notes.push("stale, next read returns full content");
+        lines.push(`${relative(process.cwd(), f.path) || f.path}  (${notes.join(", ")})`);
+      }
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    },
+  );
+
   server.tool(
     "cache_status",
     `Show cachebro statistics: files tracked, tokens saved, cache hit rates.
@@ -164,6 +515,10 @@ Use this to verify cachebro is working and see how many tokens it has saved.`,
         `  Files tracked: ${stats.filesTracked}`,
         `  Tokens saved (this session): ~${stats.sessionTokensSaved.toLocaleString()}`,
         `  Tokens saved (all sessions): ~${stats.tokensSaved.toLocaleString()}`,
+        `  Tokenizer: ${stats.tokenizer}`,
+        ...formatReads(stats.sessionReads, "this session"),
+        ...formatReads(stats.reads, "all sessions"),
+        ...formatTopFiles(stats),
       ].join("\n");
       return { content: [{ type: "text" as const, text }] };
     },
@@ -179,12 +534,88 @@ Use this to verify cachebro is working and see how many tokens it has saved.`,
     },
   );
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  return server;
+}
 
-  process.on("SIGINT", () => {
-    watcher.close();
-    cache.close();
-    process.exit(0);
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/** HTTP sessions with no request for this long are closed */
+export const DEFAULT_HTTP_IDLE_MS = 30 * 60_000;
+
+/**
+ * Serve MCP over Streamable HTTP. Each connection is a cachebro session named
+ * after its Mcp-Session-Id; all of them share one store and one watcher.
+ * Clients that go away without a DELETE are closed once idle for `idleMs`.
+ */
+async function serveHttp(cache: CacheStore, maxResponseTokens: number, port: number, host: string, idleMs: number): Promise<void> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  /** Requests in flight (an open event stream counts) and when the last one ended */
+  const activity = new Map<string, { open: number; lastUsed: number }>();
+  const loopback = LOOPBACK_HOSTS.has(host) || host === "::1";
+
+  if (idleMs > 0) {
+    const sweep = setInterval(() => {
+      const cutoff = Date.now() - idleMs;
+      for (const [sessionId, use] of activity) {
+        if (use.open === 0 && use.lastUsed < cutoff) void transports.get(sessionId)?.close();
+      }
+    }, Math.min(Math.max(idleMs / 2, 1000), 60_000));
+    sweep.unref();
+  }
+
+  const reject = (res: ServerResponse, status: number, message: string) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/mcp") return reject(res, 404, "Not found: the MCP endpoint is /mcp");
+    // A web page must not reach a local server by rebinding its own domain to 127.0.0.1
+    let hostname = "";
+    try {
+      hostname = new URL(`http://${req.headers.host}`).hostname;
+    } catch {}
+    if (loopback && !LOOPBACK_HOSTS.has(hostname)) return reject(res, 403, `Host not allowed: ${req.headers.host}`);
+
+    const id = req.headers["mcp-session-id"];
+    let transport = typeof id === "string" ? transports.get(id) : undefined;
+    if (!transport) {
+      if (id !== undefined) return reject(res, 404, "Session not found");
+      if (req.method !== "POST") return reject(res, 400, "No session: send an initialize request first");
+      const sessionId = randomUUID();
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => sessionId,
+        onsessioninitialized: () => {
+          transports.set(sessionId, created);
+          activity.set(sessionId, { open: 0, lastUsed: Date.now() });
+        },
+      });
+      created.onclose = () => {
+        transports.delete(sessionId);
+        activity.delete(sessionId);
+      };
+      await createMcpServer(cache.forSession(sessionId), maxResponseTokens).connect(created);
+      transport = created;
+    }
+
+    const use = typeof id === "string" ? activity.get(id) : undefined;
+    if (use) {
+      use.open++;
+      res.once("close", () => {
+        use.open--;
+        use.lastUsed = Date.now();
+      });
+    }
+    try {
+      await transport.handleRequest(req, res);
+    } catch (e: any) {
+      if (!res.headersSent) reject(res, 500, e.message);
+    }
+  });
+
+  await new Promise<void>((resolve, fail) => {
+    server.once("error", fail);
+    server.listen(port, host, () => resolve());
   });
 }
@@ -0,0 +1,108 @@
+/**
+ * Which files the cache may touch. A path must lie under one of the allowed
+ * roots after symlinks are resolved, so a link inside the project cannot
+ * reach a file outside it. Files that usually hold secrets are matched by
+ * name; what happens to them is up to the caller.
+ */
+
+import { readlinkSync, realpathSync } from "fs";
+import { basename, dirname, join, relative, resolve, sep } from "path";
+import { globToRegExp } from "./glob.js";
+
+/**
+ * Matched against the path under its root; patterns without a "/" match the
+ * file name at any depth. A leading "!" exempts matching files.
+ */
+export const DEFAULT_SENSITIVE_PATTERNS: readonly string[] = [
+  ".env",
+  ".env.*",
+  "!.env.example",
+  "!.env.sample",
+  "!.env.template",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.keystore",
+  "*.jks",
+  "id_rsa",
+  "id_dsa",
+  "id_ecdsa",
+  "id_ed25519",
+  ".netrc",
+  ".npmrc",
+  ".pypirc",
+  ".pgpass",
+  ".git-credentials",
+  "**/.aws/credentials",
+  "**/.docker/config.json",
+  "**/.kube/config",
+  "credentials.json",
+  "service-account*.json",
+  "secrets.{yml,yaml,json,toml}",
+];
+
+export interface Access {
+  /**
+   * Resolve a path and check it is under an allowed root. Returns the path
+   * and the sensitive pattern it matches, if any. Throws if it is outside.
+   */
+  check(path: string): { path: string; sensitive?: string };
+}
+
+export function compileAccess(roots: string[], sensitive: readonly string[]): Access {
+  const realRoots = roots.map((r) => realPath(resolve(r)));
+  const rules = sensitive.map((pattern) => {
+    const exempt = pattern.startsWith("!");
+    const glob = exempt ? pattern.slice(1) : pattern;
+    return { pattern, exempt, re: globToRegExp(glob) };
+  });
+
+  const rootOf = (path: string) =>
+    realRoots.find((root) => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+
+  const matchSensitive = (path: string, root: string): string | undefined => {
+    const rel = relative(root, path).split(sep).join("/");
+    let matched: string | undefined;
+    for (const rule of rules) {
+      if (!rule.re.test(rel)) continue;
+      if (rule.exempt) return undefined;
+      matched ??= rule.pattern;
+    }
+    return matched;
+  };
+
+  return {
+    check(path) {
+      const abs = resolve(path);
+      const real = realPath(abs);
+      const root = rootOf(real);
+      if (!root) {
+        const via = real === abs ? "" : ` (a link to ${real})`;
+        throw new Error(`Access denied: ${path}${via} is outside the allowed directories: ${realRoots.join(", ")}`);
+      }
+      // A link is judged by both its own name and its target's
+      const linkRoot = rootOf(abs);
+      const sensitive = matchSensitive(real, root) ?? (linkRoot ? matchSensitive(abs, linkRoot) : matchSensitive(abs, dirname(abs)));
+      return { path: abs, sensitive };
+    },
+  };
+}
+
+/**
+ * The real path of a file that may not exist yet: its nearest existing
+ * ancestor's, plus the rest. A dangling link leads where it would write.
+ */
+function realPath(path: string, links = 0): string {
+  try {
+    return realpathSync(path);
+  } catch {}
+  if (links < 40) {
+    try {
+      return realPath(resolve(dirname(path), readlinkSync(path)), links + 1);
+    } catch {}
+  }
+  const parent = dirname(path);
+  if (parent === path) return path;
+  return join(realPath(parent, links), basename(path));
+}
@@ -0,0 +1,107 @@
+/**
+ * Trace replay for comparing configurations offline. Each file snapshot in
+ * the trace is written to a scratch directory and each read is served by a
+ * fresh CacheStore. The baseline is what a plain read of the same lines would
+ * have returned, counted with the same tokenizer.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join, relative, sep } from "path";
+import { CacheStore } from "./cache.js";
+import { resolveTokenizer } from "./tokenizer.js";
+import type { BenchResult, CacheConfig, TraceEntry } from "./types.js";
+
+/** Parse a JSONL trace, one entry per line. Blank lines are skipped. */
+export function parseTrace(text: string): TraceEntry[] {
+  const entries: TraceEntry[] = [];
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    let entry: any;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Line ${i + 1}: not valid JSON`);
+    }
+    if (typeof entry?.path !== "string") throw new Error(`Line ${i + 1}: missing "path"`);
+    if (entry.op === "write" && typeof entry.content !== "string") throw new Error(`Line ${i + 1}: write needs "content"`);
+    if (entry.op !== "read" && entry.op !== "write" && entry.op !== "delete") {
+      throw new Error(`Line ${i + 1}: unknown op ${JSON.stringify(entry.op)}. Expected read, write or delete`);
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/** Replay a trace against a fresh cache built from `config`. */
+export async function replayTrace(
+  trace: TraceEntry[],
+  config?: Omit<CacheConfig, "dbPath" | "sessionId" | "watchPaths">,
+): Promise<BenchResult> {
+  const dir = mkdtempSync(join(tmpdir(), "cachebro-bench-"));
+  const tokenizer = resolveTokenizer(config?.tokenizer);
+  const root = join(dir, "files");
+  const cache = new CacheStore({
+    ...config,
+    dbPath: join(dir, "cache.db"),
+    sessionId: "bench",
+    tokenizer,
+    eventLog: undefined,
+    access: { ...config?.access, roots: [root] },
+  });
+  const place = (path: string) => {
+    const abs = join(root, path);
+    const rel = relative(root, abs);
+    if (rel === ".." || rel.startsWith(".." + sep)) throw new Error(`Trace path leaves the replay directory: ${path}`);
+    return abs;
+  };
+
+  const result: BenchResult = { tokenizer: tokenizer.name, reads: 0, baselineTokens: 0, returnedTokens: 0, byKind: {} };
+  try {
+    await cache.init();
+    let lastEvent = 0;
+    for (const entry of trace) {
+      const abs = place(entry.path);
+      if (entry.op === "write") {
+        mkdirSync(dirname(abs), { recursive: true });
+        writeFileSync(abs, entry.content);
+        continue;
+      }
+      if (entry.op === "delete") {
+        rmSync(abs, { force: true });
+        continue;
+      }
+
+      // A plain read returns the requested lines, or fails like ours does
+      let baseline = 0;
+      if (existsSync(abs)) {
+        const lines = readFileSync(abs, "utf-8").split("\n");
+        const start = entry.offset && !entry.force ? entry.offset - 1 : 0;
+        const end = entry.limit && !entry.force ? start + entry.limit : lines.length;
+        baseline = tokenizer.count(lines.slice(start, end).join("\n"));
+      }
+      try {
+        if (entry.force) await cache.readFileFull(abs);
+        else await cache.readFile(abs, { offset: entry.offset, limit: entry.limit });
+      } catch {
+        // Logged as an error event
+      }
+
+      // Each read logs exactly one event
+      const [event] = await cache.getReadEvents({ afterId: lastEvent });
+      lastEvent = event.id;
+      const totals = (result.byKind[event.kind] ??= { reads: 0, baselineTokens: 0, returnedTokens: 0 });
+      totals.reads++;
+      totals.baselineTokens += baseline;
+      totals.returnedTokens += event.tokensReturned;
+      result.reads++;
+      result.baselineTokens += baseline;
+      result.returnedTokens += event.tokensReturned;
+    }
+  } finally {
+    await cache.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+  return result;
+}
@@ -1,19 +1,74 @@
 import { connect } from "@tursodatabase/database";
-import { computeDiff } from "./differ.js";
-import type { CacheConfig, CacheStats, FileReadResult } from "./types.js";
+import { compileAccess, DEFAULT_SENSITIVE_PATTERNS, type Access } from "./access.js";
+import { computeDiff, DEFAULT_DIFF_OPTIONS, type DiffOptions } from "./differ.js";
+import { applyEdits, type FileEdit } from "./edit.js";
+import { decodeFile, encodeFile } from "./encoding.js";
+import { DEFAULT_RETENTION, planGc, type GcRead, type GcVersion } from "./gc.js";
+import { isGlob, pathMatcher } from "./glob.js";
+import { compileIgnore, DEFAULT_IGNORE_FILES, type Ignore, type IgnoreMatch } from "./ignore.js";
+import { diffListings, formatListing, formatListingDelta, walkDirectory, type Listing } from "./listing.js";
+import { buildOutline, diffOutlines, formatOutline, formatOutlineDelta, type Outline } from "./outline.js";
+import { compileMatcher, diffMatches, fileCount, findMatches, formatMatches, formatSearchDelta, type FileMatch, type SearchMatch } from "./search.js";
+import { findSymbol, isScriptFile, listTopLevelSymbols } from "./symbols.js";
+import { carryRanges, coveredLines, formatRanges, mergeRanges, subtractRanges, type LineRange } from "./ranges.js";
+import { compileRedactor, type Redactor } from "./redact.js";
+import { DEFAULT_SELECTION_MARGIN, selectResponse, type ResponseForm } from "./select.js";
+import { resolveTokenizer, type Tokenizer } from "./tokenizer.js";
+import type { CacheConfig, CacheStats, DirectoryListResult, FileReadResult, FileStats, FileWriteResult, GcOptions, GcResult, ListOptions, OutlineReadResult, ReadCounters, ReadEvent, ReadEventKind, ReadEventQuery, ReadOptions, RetentionPolicy, SearchOptions, SearchResult, SessionDetail, SessionInfo, SessionManifest, SessionManifestEntry, StalenessPolicy, SymbolReadResult } from "./types.js";
 import { createHash } from "crypto";
+import { deflateSync, inflateSync } from "zlib";
 
 const SCHEMA = `
+CREATE TABLE IF NOT EXISTS blobs (
+  hash        TEXT PRIMARY KEY,
+  data        BLOB NOT NULL,
+  size        INTEGER NOT NULL,
+  lines       INTEGER NOT NULL,
+  created_at  INTEGER NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS file_versions (
   path        TEXT NOT NULL,
   hash        TEXT NOT NULL,
-  content     TEXT NOT NULL,
-  lines       INTEGER NOT NULL,
   created_at  INTEGER NOT NULL,
   PRIMARY KEY (path, hash)
 );
 
 CREATE TABLE IF NOT EXISTS session_reads (
+  session_id  TEXT NOT NULL,
+  path        TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  read_at     INTEGER NOT NULL,
+  sent_at     INTEGER,
+  sent_seq    INTEGER,
+  PRIMARY KEY (session_id, path)
+);
+
+CREATE TABLE IF NOT EXISTS session_pages (
+  session_id  TEXT NOT NULL,
+  path        TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  start_line  INTEGER NOT NULL,
+  end_line    INTEGER NOT NULL,
+  PRIMARY KEY (session_id, path, hash, start_line)
+);
+
+CREATE TABLE IF NOT EXISTS session_symbols (
+  session_id  TEXT NOT NULL,
+  path        TEXT NOT NULL,
+  symbol      TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  read_at     INTEGER NOT NULL,
+  PRIMARY KEY (session_id, path, symbol)
+);
+
+CREATE TABLE IF NOT EXISTS outlines (
+  hash        TEXT PRIMARY KEY,
+  outline     TEXT NOT NULL,
+  created_at  INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS session_outlines (
   session_id  TEXT NOT NULL,
   path        TEXT NOT NULL,
   hash        TEXT NOT NULL,
@@ -21,6 +76,74 @@ CREATE TABLE IF NOT EXISTS session_reads (
   PRIMARY KEY (session_id, path)
 );
 
+CREATE TABLE IF NOT EXISTS directory_snapshots (
+  hash        TEXT PRIMARY KEY,
+  listing     TEXT NOT NULL,
+  created_at  INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS session_listings (
+  session_id  TEXT NOT NULL,
+  path        TEXT NOT NULL,
+  options     TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  read_at     INTEGER NOT NULL,
+  PRIMARY KEY (session_id, path, options)
+);
+
+CREATE TABLE IF NOT EXISTS search_index (
+  path        TEXT PRIMARY KEY,
+  mtime       INTEGER NOT NULL,
+  size        INTEGER NOT NULL,
+  hash        TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS search_hits (
+  matcher     TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  matches     TEXT NOT NULL,
+  PRIMARY KEY (matcher, hash)
+);
+
+CREATE TABLE IF NOT EXISTS search_results (
+  hash        TEXT PRIMARY KEY,
+  results     TEXT NOT NULL,
+  created_at  INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS session_searches (
+  session_id  TEXT NOT NULL,
+  query       TEXT NOT NULL,
+  matcher     TEXT NOT NULL,
+  hash        TEXT NOT NULL,
+  read_at     INTEGER NOT NULL,
+  PRIMARY KEY (session_id, query)
+);
+
+CREATE TABLE IF NOT EXISTS file_stats (
+  path          TEXT PRIMARY KEY,
+  reads         INTEGER NOT NULL,
+  hits          INTEGER NOT NULL,
+  changes       INTEGER NOT NULL,
+  last_hash     TEXT NOT NULL,
+  last_read_at  INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS read_events (
+  id               INTEGER PRIMARY KEY,
+  session_id       TEXT NOT NULL,
+  path             TEXT NOT NULL,
+  line_offset      INTEGER,
+  line_limit       INTEGER,
+  old_hash         TEXT,
+  new_hash         TEXT,
+  kind             TEXT NOT NULL,
+  tokens_returned  INTEGER NOT NULL,
+  tokens_saved     INTEGER NOT NULL,
+  error            TEXT,
+  created_at       INTEGER NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS stats (
   key   TEXT PRIMARY KEY,
   value INTEGER NOT NULL DEFAULT 0
@@ -32,55 +155,300 @@ CREATE TABLE IF NOT EXISTS session_stats (
   value       INTEGER NOT NULL DEFAULT 0,
   PRIMARY KEY (session_id, key)
 );
-
-INSERT OR IGNORE INTO stats (key, value) VALUES ('tokens_saved', 0);
 `;
 
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length * 0.75);
+/** Tables holding per-session state, all keyed by session_id. */
+const SESSION_TABLES = [
+  "session_reads", "session_pages", "session_symbols", "session_outlines",
+  "session_listings", "session_searches", "session_stats",
+];
+
+/** Per-session tables keyed by file path. */
+const FILE_SESSION_TABLES = ["session_reads", "session_pages", "session_symbols", "session_outlines", "session_listings"];
+
+/** Files listed in each per-path ranking of getStats(). */
+const TOP_FILES = 10;
+
+/** Default per-response token budget. A 2 MB lockfile gets paged; ordinary source files don't. */
+const DEFAULT_MAX_RESPONSE_TOKENS = 50_000;
+
+/** Entries per directory listing before it is cut short. */
+const MAX_LIST_ENTRIES = 2_000;
+
+const DEFAULT_MAX_MATCHES = 200;
+/** Files searched per query, and the largest file searched. */
+const MAX_SEARCH_FILES = 50_000;
+const MAX_SEARCH_FILE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Take lines [start, end] until the token budget runs out. Always makes
+ * progress: a single line larger than the whole budget is cut mid-line, at
+ * the longest prefix that fits.
+ */
+function takePage(
+  lines: string[],
+  start: number,
+  end: number,
+  budget: number,
+  count: (text: string) => number,
+): { text: string; end: number; cutChars?: number } {
+  let tokens = 0;
+  let last = start - 1;
+  for (let l = start; l <= end; l++) {
+    const lineTokens = count(lines[l - 1]) + 1;
+    if (tokens + lineTokens > budget) {
+      if (l === start) {
+        const line = lines[l - 1];
+        // No tokenizer packs more than a few characters into a token on average
+        let lo = 1;
+        let hi = Math.min(line.length, Math.max(1, budget) * 8);
+        while (lo < hi) {
+          const mid = Math.ceil((lo + hi) / 2);
+          if (count(line.slice(0, mid)) <= budget) lo = mid;
+          else hi = mid - 1;
+        }
+        return { text: line.slice(0, lo), end: l, cutChars: lo };
+      }
+      break;
+    }
+    tokens += lineTokens;
+    last = l;
+  }
+  return { text: lines.slice(start - 1, last).join("\n"), end: last };
+}
+
+function readCounters(rows: unknown[]): ReadCounters {
+  const value = new Map((rows as any[]).map((r) => [r.key as string, r.value as number]));
+  return {
+    full: value.get("reads:full") ?? 0,
+    unchanged: value.get("reads:unchanged") ?? 0,
+    diff: value.get("reads:diff") ?? 0,
+    partial: value.get("reads:partial") ?? 0,
+    forced: value.get("reads:forced") ?? 0,
+    errors: value.get("reads:errors") ?? 0,
+    bytesReturned: value.get("bytes:returned") ?? 0,
+    bytesOnDisk: value.get("bytes:on_disk") ?? 0,
+  };
+}
+
+/** A value written into statement text, for batch(). */
+function sqlValue(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** What a read of an ignored file returns when ignore.reads is set: nothing is read or stored */
+function readIgnored(filePath: string, match: IgnoreMatch): FileReadResult {
+  return {
+    cached: false,
+    content: `[cachebro: ignored file, ${filePath} matches "${match.pattern}" in ${match.source}, not read]`,
+    hash: "",
+  };
 }
 
-function contentHash(content: string): string {
+function contentHash(content: string | Uint8Array): string {
   return createHash("sha256").update(content).digest("hex").slice(0, 16);
 }
 
+function compress(content: string): Buffer {
+  return deflateSync(Buffer.from(content, "utf-8"));
+}
+
+function decompress(data: Uint8Array): string {
+  return inflateSync(data).toString("utf-8");
+}
+
 export class CacheStore {
   private db: Awaited<ReturnType<typeof connect>> | null = null;
   private dbPath: string;
   private sessionId: string;
+  private retention: Required<RetentionPolicy>;
+  private diffOptions: DiffOptions | undefined;
+  private selectionMargin: number;
+  private maxResponseTokens: number;
+  private staleness: StalenessPolicy;
+  private tokenizer: Tokenizer;
+  private eventLog: string | undefined;
+  private access: Access;
+  private serveSensitive: boolean;
+  private redactor: Redactor;
+  private ignore: Ignore;
+  private ignoreReads: boolean;
+  /** Walk filter for listings and searches */
+  private skip = (path: string, isDir: boolean) => this.ignore.match(path, isDir) !== undefined;
+  /** Token counts of whole file versions, by content hash */
+  private tokenCounts = new Map<string, number>();
   private initialized = false;
+  private config: CacheConfig;
+  /** The store this one is a session view of; it owns the connection */
+  private shared: CacheStore | null = null;
+  /** Transactions queue here: sessions sharing a connection cannot nest them */
+  private transactions: Promise<unknown> = Promise.resolve();
 
   constructor(config: CacheConfig) {
+    this.config = config;
     this.dbPath = config.dbPath;
     this.sessionId = config.sessionId;
+    this.retention = { ...DEFAULT_RETENTION, ...config.retention };
+    this.diffOptions = config.diff;
+    this.selectionMargin = config.selection?.margin ?? DEFAULT_SELECTION_MARGIN;
+    this.maxResponseTokens = config.maxResponseTokens ?? DEFAULT_MAX_RESPONSE_TOKENS;
+    this.staleness = config.staleness ?? {};
+    this.tokenizer = resolveTokenizer(config.tokenizer);
+    this.eventLog = config.eventLog;
+    const roots = config.access?.roots ?? (config.watchPaths?.length ? config.watchPaths : [process.cwd()]);
+    this.access = compileAccess(roots, config.access?.sensitive ?? DEFAULT_SENSITIVE_PATTERNS);
+    this.serveSensitive = config.access?.onSensitive === "uncached";
+    this.redactor = compileRedactor(config.redaction);
+    this.ignore = compileIgnore(roots, {
+      files: config.ignore?.files ?? DEFAULT_IGNORE_FILES,
+      patterns: config.ignore?.patterns ?? [],
+      watched: config.watchPaths,
+    });
+    this.ignoreReads = config.ignore?.reads ?? false;
   }
 
   async init(): Promise<void> {
     if (this.initialized) return;
+    if (this.shared) {
+      await this.shared.init();
+      this.db = this.shared.db;
+      this.initialized = true;
+      return;
+    }
     this.db = await connect(this.dbPath);
+    const legacy = await this.hasLegacyVersions();
     await this.db.exec(SCHEMA);
+    if (legacy) {
+      await this.migrateLegacyVersions();
+    }
+    await this.migrateSessionReads();
+    await this.migrateTokenStats();
     this.initialized = true;
   }
 
+  /**
+   * Savings used to be counted with the character estimate under a single
+   * key; keep them, filed under that tokenizer.
+   */
+  private async migrateTokenStats(): Promise<void> {
+    const db = this.getDb();
+    for (const table of ["stats", "session_stats"]) {
+      const legacy = await db.prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE key = 'tokens_saved'`).all();
+      if ((legacy[0] as any).n === 0) continue;
+      if (table === "stats") {
+        await db.exec(`
+          INSERT INTO stats (key, value) SELECT 'tokens_saved:estimate', value FROM stats WHERE key = 'tokens_saved'
+            ON CONFLICT(key) DO UPDATE SET value = stats.value + excluded.value;
+          DELETE FROM stats WHERE key = 'tokens_saved';
+        `);
+      } else {
+        await db.exec(`
+          INSERT INTO session_stats (session_id, key, value) SELECT session_id, 'tokens_saved:estimate', value FROM session_stats WHERE key = 'tokens_saved'
+            ON CONFLICT(session_id, key) DO UPDATE SET value = session_stats.value + excluded.value;
+          DELETE FROM session_stats WHERE key = 'tokens_saved';
+        `);
+      }
+    }
+  }
+
+  /** Databases created before the staleness policy lack the sent_* columns. */
+  private async migrateSessionReads(): Promise<void> {
+    const db = this.getDb();
+    const columns = await db.prepare("PRAGMA table_info(session_reads)").all();
+    for (const column of ["sent_at", "sent_seq"]) {
+      if (!columns.some((c: any) => c.name === column)) {
+        await db.exec(`ALTER TABLE session_reads ADD COLUMN ${column} INTEGER`);
+      }
+    }
+  }
+
+  /** Databases created before blob storage keep full text in file_versions.content. */
+  private async hasLegacyVersions(): Promise<boolean> {
+    const columns = await this.getDb().prepare("PRAGMA table_info(file_versions)").all();
+    return columns.some((c: any) => c.name === "content");
+  }
+
+  private async migrateLegacyVersions(): Promise<void> {
+    const db = this.getDb();
+    await this.transaction(async () => {
+      await db.exec(`
+        CREATE TABLE file_versions_migrated (
+          path        TEXT NOT NULL,
+          hash        TEXT NOT NULL,
+          created_at  INTEGER NOT NULL,
+          PRIMARY KEY (path, hash)
+        )
+      `);
+      // Copy one row at a time so large caches never sit in memory at once
+      const keys = await db.prepare("SELECT path, hash FROM file_versions").all();
+      for (const key of keys) {
+        const { path, hash } = key as any;
+        const rows = await db.prepare(
+          "SELECT content, lines, created_at FROM file_versions WHERE path = ? AND hash = ?"
+        ).all(path, hash);
+        const r = rows[0] as any;
+        await this.storeBlob(hash, r.content, r.lines, r.created_at);
+        await db.prepare(
+          "INSERT OR IGNORE INTO file_versions_migrated (path, hash, created_at) VALUES (?, ?, ?)"
+        ).run(path, hash, r.created_at);
+      }
+      await db.exec("DROP TABLE file_versions");
+      await db.exec("ALTER TABLE file_versions_migrated RENAME TO file_versions");
+    });
+  }
+
+  /**
+   * The same store as seen by another session. Views share the database
+   * connection, tokenizer and token counts, so one process can serve many agents.
+   */
+  forSession(sessionId: string): CacheStore {
+    const root = this.shared ?? this;
+    const view = new CacheStore({ ...root.config, sessionId, tokenizer: root.tokenizer });
+    view.shared = root;
+    view.tokenCounts = root.tokenCounts;
+    // The watcher invalidates the root's ignore rules; views must see the same ones
+    view.ignore = root.ignore;
+    return view;
+  }
+
   private getDb() {
     if (!this.db) throw new Error("CacheStore not initialized. Call init() first.");
     return this.db;
   }
 
-  async readFile(filePath: string, options?: { offset?: number; limit?: number }): Promise<FileReadResult> {
+  async readFile(filePath: string, options?: ReadOptions): Promise<FileReadResult> {
+    return this.countRead(filePath, false, options, () => this.serveRead(filePath, options));
+  }
+
+  /** Read the whole file regardless of what this session has seen. */
+  async readFileFull(filePath: string, options?: Pick<ReadOptions, "maxTokens">): Promise<FileReadResult> {
+    return this.countRead(filePath, true, undefined, () => this.serveFullRead(filePath, options));
+  }
+
+  private async serveRead(filePath: string, options?: ReadOptions): Promise<FileReadResult> {
     await this.init();
     const db = this.getDb();
     const { readFileSync, statSync } = await import("fs");
-    const { resolve } = await import("path");
 
-    const absPath = resolve(filePath);
+    const { path: absPath, sensitive } = this.access.check(filePath);
     statSync(absPath); // throws if file doesn't exist
+    if (sensitive) return this.readSensitive(absPath, filePath, sensitive, options);
+    const ignored = this.ignoreReads ? this.ignore.match(absPath, false) : undefined;
+    if (ignored) return readIgnored(filePath, ignored);
 
-    const currentContent = readFileSync(absPath, "utf-8");
+    const bytes = readFileSync(absPath);
+    const decoded = decodeFile(bytes);
+    if (decoded.kind === "binary") {
+      return this.readBinary(absPath, decoded.type, bytes, false);
+    }
+
+    const currentContent = this.redactor.redact(decoded.text);
     const currentHash = contentHash(currentContent);
     const allLines = currentContent.split("\n");
     const currentLines = allLines.length;
     const now = Date.now();
+    const seq = await this.nextReadSeq();
+    const budget = options?.maxTokens ?? this.maxResponseTokens;
 
     const offset = options?.offset ?? 0;
     const limit = options?.limit ?? 0;
@@ -96,26 +464,80 @@ export class CacheStore {
     };
 
     const rangeStart = offset > 0 ? offset : 1; // 1-based
-    const rangeEnd = limit > 0 ? rangeStart + limit - 1 : currentLines;
-    const rangeLineCount = rangeEnd - rangeStart + 1;
+    const rangeEnd = limit > 0 ? Math.min(rangeStart + limit - 1, currentLines) : currentLines;
+
+    // Nothing to send, and nothing the session saw or will see
+    if (rangeStart > currentLines) {
+      return {
+        cached: false,
+        content: `[cachebro: offset ${rangeStart} beyond end of file (${currentLines} lines)]`,
+        hash: currentHash,
+        totalLines: currentLines,
+      };
+    }
+
+    // Return the requested lines of the current version, paged to the budget
+    const sendContent = async (alreadySent: LineRange[] = []): Promise<FileReadResult> => {
+      const sent = await this.sendRanges(absPath, currentHash, allLines, [[rangeStart, rangeEnd]], alreadySent, budget, false);
+      await this.markSent(absPath, now, seq);
+      return {
+        cached: false,
+        content: sent.content,
+        hash: currentHash,
+        totalLines: currentLines,
+        truncated: sent.truncated || undefined,
+        nextOffset: sent.nextOffset,
+      };
+    };
 
-    // What did THIS session last see for this file?
+    // Send the lines of the requested range this session has not seen, given
+    // the pages of the current version it holds
+    const sendMissing = async (pages: LineRange[], missing: LineRange[]): Promise<FileReadResult> => {
+      const seenTokens = this.countTokens(
+        pages.flatMap(([s, e]) => allLines.slice(Math.max(s, rangeStart) - 1, Math.min(e, rangeEnd))).join("\n"),
+      );
+      const seen = coveredLines([rangeStart, rangeEnd], pages) > 0;
+      if (seen) await this.addTokensSaved(seenTokens);
+
+      const sent = await this.sendRanges(absPath, currentHash, allLines, missing, pages, budget, seen);
+      await this.markSent(absPath, now, seq);
+      const preface = seen
+        ? `[cachebro: lines ${formatRanges(pages)} of ${currentLines} already sent this session, ${seenTokens} tokens saved]\n`
+        : "";
+      return {
+        cached: seen,
+        content: preface + sent.content,
+        hash: currentHash,
+        totalLines: currentLines,
+        truncated: sent.truncated || undefined,
+        nextOffset: sent.nextOffset,
+        tokensSaved: seen ? seenTokens : undefined,
+      };
+    };
+
+    // What did THIS session last see for this file? A read old enough to
+    // have left the agent's context counts as never seen.
     const lastRead = await db.prepare(
-      "SELECT hash FROM session_reads WHERE session_id = ? AND path = ?"
+      "SELECT hash, read_at, sent_at, sent_seq FROM session_reads WHERE session_id = ? AND path = ?"
     ).all(this.sessionId, absPath);
 
-    if (lastRead.length > 0) {
+    if (lastRead.length > 0 && !this.isStale(lastRead[0], now, seq)) {
       const lastHash = (lastRead[0] as any).hash as string;
 
       if (lastHash === currentHash) {
-        // Same content this session already saw
-        const slicedTokens = isPartial ? estimateTokens(sliceLines(currentContent)) : estimateTokens(currentContent);
-        await this.addTokensSaved(slicedTokens);
-
         await db.prepare(
           "UPDATE session_reads SET read_at = ? WHERE session_id = ? AND path = ?"
         ).run(now, this.sessionId, absPath);
 
+        // Same content this session already saw — but maybe only some pages of it
+        const pages = await this.getPages(absPath, currentHash);
+        const missing = pages.length > 0 ? subtractRanges([rangeStart, rangeEnd], pages) : [];
+
+        if (missing.length > 0) return sendMissing(pages, missing);
+
+        const slicedTokens = isPartial ? this.countTokens(sliceLines(currentContent)) : this.countTokens(currentContent, currentHash);
+        await this.addTokensSaved(slicedTokens);
+
         const label = isPartial
           ? `[cachebro: unchanged, lines ${rangeStart}-${rangeEnd} of ${currentLines}, ${slicedTokens} tokens saved]`
           : `[cachebro: unchanged, ${currentLines} lines, ${slicedTokens} tokens saved]`;
@@ -126,190 +548,1523 @@ export class CacheStore {
           hash: currentHash,
           totalLines: currentLines,
           linesChanged: 0,
+          tokensSaved: slicedTokens,
         };
       }
 
       // File changed — find old version to diff against
-      const oldVersion = await db.prepare(
-        "SELECT content FROM file_versions WHERE path = ? AND hash = ?"
-      ).all(absPath, lastHash);
+      const oldContent = await this.loadVersion(absPath, lastHash);
+      // Non-empty if the session only saw part of the old version
+      const oldPages = await this.getPages(absPath, lastHash);
 
       // Store the new version
-      await db.prepare(
-        "INSERT OR IGNORE INTO file_versions (path, hash, content, lines, created_at) VALUES (?, ?, ?, ?, ?)"
-      ).run(absPath, currentHash, currentContent, currentLines, now);
+      await this.storeVersion(absPath, currentHash, currentContent, currentLines, now);
 
       // Update session read pointer
       await db.prepare(
         "UPDATE session_reads SET hash = ?, read_at = ? WHERE session_id = ? AND path = ?"
       ).run(currentHash, now, this.sessionId, absPath);
+      await this.clearPages(absPath);
 
-      if (oldVersion.length > 0) {
-        const oldContent = (oldVersion[0] as any).content as string;
-        const diffResult = computeDiff(oldContent, currentContent, filePath);
-
-        if (diffResult.hasChanges) {
-          // Check if the requested range overlaps with changed lines
-          if (isPartial) {
-            let rangeHasChanges = false;
-            for (let l = rangeStart; l <= rangeEnd; l++) {
-              if (diffResult.changedNewLines.has(l)) {
-                rangeHasChanges = true;
-                break;
-              }
-            }
-
-            if (!rangeHasChanges) {
-              // Changes exist but NOT in the requested range
-              const slicedTokens = estimateTokens(sliceLines(currentContent));
-              await this.addTokensSaved(slicedTokens);
-              return {
-                cached: true,
-                content: `[cachebro: unchanged in lines ${rangeStart}-${rangeEnd}, changes elsewhere in file, ${slicedTokens} tokens saved]`,
-                hash: currentHash,
-                totalLines: currentLines,
-                linesChanged: 0,
-              };
-            }
-          }
+      if (oldContent === null) return sendContent();
+      const diffResult = computeDiff(oldContent, currentContent, filePath, this.diffOptions, isPartial ? [rangeStart, rangeEnd] : undefined);
+      // Over the diff budget we cannot tell what changed — send the content
+      if (!diffResult.hasChanges || diffResult.budgetExceeded) return sendContent();
 
-          // Changes overlap with requested range (or full-file read) — return diff or slice
-          if (isPartial) {
-            // Return just the requested lines from the new content
-            const sliced = sliceLines(currentContent);
-            const fullTokens = estimateTokens(sliced);
-            // No savings — we're returning the content they asked for
-            return {
-              cached: false,
-              content: sliced,
-              hash: currentHash,
-              totalLines: currentLines,
-            };
-          }
+      if (!isPartial && oldPages.length === 0) {
+        const changed = `+${diffResult.linesAdded}/-${diffResult.linesRemoved} lines of ${currentLines}`;
+        // A diff too big for one response is no use; page through the new version instead
+        const fits = (tokens: number) => budget <= 0 || tokens <= budget;
+        const candidates: Array<{ form: ResponseForm; tokens: number; diff?: string }> = [
+          { form: "replacement", tokens: this.countTokens(currentContent, currentHash) },
+        ];
+        const diffTokens = this.countTokens(diffResult.diff);
+        if (fits(diffTokens)) candidates.push({ form: "diff", tokens: diffTokens, diff: diffResult.diff });
+        let pick = selectResponse(candidates, this.selectionMargin);
 
-          const fullTokens = estimateTokens(currentContent);
-          const diffTokens = estimateTokens(diffResult.diff);
-          const saved = Math.max(0, fullTokens - diffTokens);
-          await this.addTokensSaved(saved);
+        // Context lines can outweigh the changes themselves; try without them
+        if (pick.diff === undefined && (this.diffOptions?.context ?? DEFAULT_DIFF_OPTIONS.context) > 0) {
+          const compact = computeDiff(oldContent, currentContent, filePath, { ...this.diffOptions, context: 0 });
+          const compactTokens = this.countTokens(compact.diff);
+          if (!compact.budgetExceeded && fits(compactTokens)) {
+            pick = selectResponse([candidates[0], { form: "compact", tokens: compactTokens, diff: compact.diff }], this.selectionMargin);
+          }
+        }
 
+        if (pick.diff === undefined) {
+          const sent = await sendContent();
           return {
-            cached: true,
-            content: diffResult.diff,
-            diff: diffResult.diff,
-            hash: currentHash,
+            ...sent,
+            content: `[cachebro: ${changed}, full content follows, replacing the version you read before]\n${sent.content}`,
             linesChanged: diffResult.linesChanged,
-            totalLines: currentLines,
+            form: pick.form,
           };
         }
+
+        const saved = Math.max(0, candidates[0].tokens - pick.tokens);
+        await this.addTokensSaved(saved);
+        const patch = pick.form === "compact" ? "diff without context lines" : "diff";
+
+        return {
+          cached: true,
+          content: `[cachebro: ${changed}, ${patch} against the version you read before, ${saved} tokens saved]\n${pick.diff}`,
+          diff: pick.diff,
+          hash: currentHash,
+          linesChanged: diffResult.linesChanged,
+          totalLines: currentLines,
+          tokensSaved: saved,
+          form: pick.form,
+        };
       }
 
-      // Old version not found or no changes detected — return content
-      const content = isPartial ? sliceLines(currentContent) : currentContent;
-      return {
-        cached: false,
-        content,
-        hash: currentHash,
-        totalLines: currentLines,
-      };
+      // The session holds only some lines: those it saw that did not change.
+      // A diff against lines it never saw is no use.
+      const oldLines = oldContent.split("\n").length;
+      const carried = carryRanges(oldPages.length > 0 ? oldPages : [[1, oldLines]], diffResult.oldLineOf, diffResult.changedNewLines);
+      if (carried.length === 0) return sendContent();
+
+      const missing = subtractRanges([rangeStart, rangeEnd], carried);
+      if (missing.length === 0) {
+        await this.recordPages(absPath, currentHash, carried, currentLines);
+        const slicedTokens = this.countTokens(sliceLines(currentContent));
+        await this.addTokensSaved(slicedTokens);
+        return {
+          cached: true,
+          content: `[cachebro: unchanged in lines ${rangeStart}-${rangeEnd}, changes elsewhere in file, ${slicedTokens} tokens saved]`,
+          hash: currentHash,
+          totalLines: currentLines,
+          linesChanged: 0,
+          tokensSaved: slicedTokens,
+        };
+      }
+
+      // Changed lines are never carried, so they are all among the missing ones
+      let changedInRange = 0;
+      for (const l of diffResult.changedNewLines) if (l >= rangeStart && l <= rangeEnd) changedInRange++;
+      if (!isPartial || changedInRange === 0) return sendMissing(carried, missing);
+
+      // Every line of the range was either seen or changed: a diff of the range says it all
+      const unseen = missing.reduce((n, [s, e]) => n + e - s + 1, 0);
+      const sliceTokens = this.countTokens(sliceLines(currentContent));
+      const diffTokens = this.countTokens(diffResult.diff);
+      if (unseen === changedInRange && diffTokens < sliceTokens && (budget <= 0 || diffTokens <= budget)) {
+        await this.recordPages(absPath, currentHash, [...carried, [rangeStart, rangeEnd]], currentLines);
+        await this.addTokensSaved(sliceTokens - diffTokens);
+        return {
+          cached: true,
+          content: `[cachebro: lines ${rangeStart}-${rangeEnd} changed, diff of the requested lines, ${sliceTokens - diffTokens} tokens saved]\n${diffResult.diff}`,
+          diff: diffResult.diff,
+          hash: currentHash,
+          linesChanged: changedInRange,
+          totalLines: currentLines,
+          tokensSaved: sliceTokens - diffTokens,
+        };
+      }
+      return sendContent(carried);
     }
 
-    // First read in this session
-    await db.prepare(
-      "INSERT OR IGNORE INTO file_versions (path, hash, content, lines, created_at) VALUES (?, ?, ?, ?, ?)"
-    ).run(absPath, currentHash, currentContent, currentLines, now);
+    // First read in this session, or the last one went stale
+    await this.storeVersion(absPath, currentHash, currentContent, currentLines, now);
 
     await db.prepare(
       "INSERT OR REPLACE INTO session_reads (session_id, path, hash, read_at) VALUES (?, ?, ?, ?)"
     ).run(this.sessionId, absPath, currentHash, now);
+    await this.clearPages(absPath);
 
-    const content = isPartial ? sliceLines(currentContent) : currentContent;
-    return {
-      cached: false,
-      content,
-      hash: currentHash,
-      totalLines: currentLines,
-    };
+    return sendContent();
   }
 
-  async readFileFull(filePath: string): Promise<FileReadResult> {
+  private async serveFullRead(filePath: string, options?: Pick<ReadOptions, "maxTokens">): Promise<FileReadResult> {
     await this.init();
     const db = this.getDb();
     const { readFileSync, statSync } = await import("fs");
-    const { resolve } = await import("path");
 
-    const absPath = resolve(filePath);
+    const { path: absPath, sensitive } = this.access.check(filePath);
     statSync(absPath);
+    if (sensitive) return this.readSensitive(absPath, filePath, sensitive);
+    const ignored = this.ignoreReads ? this.ignore.match(absPath, false) : undefined;
+    if (ignored) return readIgnored(filePath, ignored);
 
-    const currentContent = readFileSync(absPath, "utf-8");
+    const bytes = readFileSync(absPath);
+    const decoded = decodeFile(bytes);
+    if (decoded.kind === "binary") {
+      return this.readBinary(absPath, decoded.type, bytes, true);
+    }
+
+    const currentContent = this.redactor.redact(decoded.text);
     const currentHash = contentHash(currentContent);
-    const currentLines = currentContent.split("\n").length;
+    const allLines = currentContent.split("\n");
+    const currentLines = allLines.length;
     const now = Date.now();
 
-    await db.prepare(
-      "INSERT OR IGNORE INTO file_versions (path, hash, content, lines, created_at) VALUES (?, ?, ?, ?, ?)"
-    ).run(absPath, currentHash, currentContent, currentLines, now);
+    await this.storeVersion(absPath, currentHash, currentContent, currentLines, now);
 
     await db.prepare(
-      "INSERT OR REPLACE INTO session_reads (session_id, path, hash, read_at) VALUES (?, ?, ?, ?)"
-    ).run(this.sessionId, absPath, currentHash, now);
+      "INSERT OR REPLACE INTO session_reads (session_id, path, hash, read_at, sent_at, sent_seq) VALUES (?, ?, ?, ?, ?, ?)"
+    ).run(this.sessionId, absPath, currentHash, now, now, await this.currentReadSeq());
+    await this.clearPages(absPath);
+
+    const budget = options?.maxTokens ?? this.maxResponseTokens;
+    const sent = await this.sendRanges(absPath, currentHash, allLines, [[1, currentLines]], [], budget, false);
 
     return {
       cached: false,
-      content: currentContent,
+      content: sent.content,
       hash: currentHash,
       totalLines: currentLines,
+      truncated: sent.truncated || undefined,
+      nextOffset: sent.nextOffset,
     };
   }
 
-  async onFileChanged(_filePath: string): Promise<void> {
-    // Hash check in readFile handles staleness detection.
+  /**
+   * Apply exact search/replace edits to a file and move this session's read
+   * pointer to the result, so the next read_file is "unchanged" rather than
+   * a diff of the session's own edit. Changes made outside the session since
+   * its last read are returned as a diff.
+   */
+  async editFile(filePath: string, edits: FileEdit[]): Promise<FileWriteResult> {
+    await this.init();
+    const { readFileSync } = await import("fs");
+
+    const absPath = this.allowedPath(filePath);
+    const decoded = decodeFile(readFileSync(absPath));
+    if (decoded.kind === "binary") throw new Error(`Cannot edit binary file: ${filePath}`);
+
+    // Placeholders the agent copied from a redacted read stand for the real secrets
+    const restored = edits.map((e) => ({
+      ...e,
+      oldString: this.redactor.restore(e.oldString, decoded.text),
+      newString: this.redactor.restore(e.newString, decoded.text),
+    }));
+    const { text, replacements } = applyEdits(decoded.text, restored, filePath);
+    return this.commitWrite(absPath, filePath, decoded.text, text, decoded.encoding, false,
+      `${replacements} replacement${replacements === 1 ? "" : "s"} in ${filePath}`);
   }
 
-  async onFileDeleted(filePath: string): Promise<void> {
+  /**
+   * Write a whole file and move this session's read pointer to it. Existing
+   * files keep their encoding; new files are UTF-8.
+   */
+  async writeFile(filePath: string, content: string): Promise<FileWriteResult> {
     await this.init();
+    const { existsSync, mkdirSync, readFileSync } = await import("fs");
+    const { dirname } = await import("path");
+
+    const absPath = this.allowedPath(filePath);
+    let before: string | null = null;
+    let encoding = "utf-8";
+    if (existsSync(absPath)) {
+      const decoded = decodeFile(readFileSync(absPath));
+      if (decoded.kind === "text") {
+        before = decoded.text;
+        encoding = decoded.encoding;
+      }
+    } else {
+      mkdirSync(dirname(absPath), { recursive: true });
+    }
+
+    if (before !== null) content = this.redactor.restore(content, before);
+    return this.commitWrite(absPath, filePath, before, content, encoding, true,
+      `${before === null ? "created" : "wrote"} ${filePath}`);
+  }
+
+  /**
+   * Write new content and record it as this session's view of the file.
+   * `whole` means the caller supplied the entire content, so the session
+   * knows the file even if it never read it. The file gets `content` as
+   * given; hashes, diffs and storage see it redacted.
+   */
+  private async commitWrite(
+    absPath: string,
+    label: string,
+    original: string | null,
+    content: string,
+    encoding: string,
+    whole: boolean,
+    summary: string,
+  ): Promise<FileWriteResult> {
     const db = this.getDb();
-    const { resolve } = await import("path");
-    const absPath = resolve(filePath);
-    await db.prepare("DELETE FROM file_versions WHERE path = ?").run(absPath);
-    await db.prepare("DELETE FROM session_reads WHERE path = ?").run(absPath);
+    const { writeFileSync } = await import("fs");
+    const now = Date.now();
+    const before = original === null ? null : this.redactor.redact(original);
+    const after = this.redactor.redact(content);
+
+    const lastRead = await db.prepare(
+      "SELECT hash FROM session_reads WHERE session_id = ? AND path = ?"
+    ).all(this.sessionId, absPath);
+    const lastHash = lastRead.length > 0 ? (lastRead[0] as any).hash as string : null;
+    // An edit to a file the session only saw part of doesn't show it the rest
+    const seenPages = lastHash !== null ? await this.getPages(absPath, lastHash) : [];
+    const partial = seenPages.length > 0;
+    // Lines of `before` the session holds, when it holds only some of them
+    let pagesBefore = partial && before !== null && contentHash(before) === lastHash ? seenPages : [];
+
+    // Did the file change outside this session since it was last read?
+    let externalDiff: string | undefined;
+    let externalUnknown = false;
+    let knowsFile = whole || (!partial && lastHash !== null && before !== null && contentHash(before) === lastHash);
+    if (lastHash !== null && before !== null && contentHash(before) !== lastHash) {
+      const seen = await this.loadVersion(absPath, lastHash);
+      const diffResult = seen !== null ? computeDiff(seen, before, label, this.diffOptions) : null;
+      if (diffResult && !diffResult.budgetExceeded) {
+        externalDiff = diffResult.diff;
+        knowsFile = whole || !partial;
+        // The external diff shows the changed lines; the rest carry over
+        if (partial) pagesBefore = carryRanges(seenPages, diffResult.oldLineOf, diffResult.changedNewLines);
+      } else {
+        externalUnknown = true;
+      }
+    }
+
+    // The pages carry over the edit, and the lines the agent wrote are seen too
+    let pagesAfter: LineRange[] = [];
+    if (!whole && pagesBefore.length > 0 && before !== null) {
+      const edit = computeDiff(before, after, label, this.diffOptions);
+      if (!edit.budgetExceeded) {
+        const written: LineRange[] = [];
+        for (let line = 1; line < edit.oldLineOf.length; line++) {
+          if (edit.oldLineOf[line] === 0) written.push([line, line]);
+        }
+        pagesAfter = mergeRanges([...carryRanges(pagesBefore, edit.oldLineOf, edit.changedNewLines), ...written]);
+      }
+    }
+
+    writeFileSync(absPath, encodeFile(content, encoding));
+
+    const hash = contentHash(after);
+    const totalLines = after.split("\n").length;
+    await this.storeVersion(absPath, hash, after, totalLines, now);
+    if (knowsFile) {
+      // A whole-file write puts all of it in context; an edit only refreshes what the agent already had
+      await db.prepare(
+        "INSERT INTO session_reads (session_id, path, hash, read_at, sent_at, sent_seq) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(session_id, path) DO UPDATE SET hash = excluded.hash, read_at = excluded.read_at, sent_at = COALESCE(excluded.sent_at, sent_at), sent_seq = COALESCE(excluded.sent_seq, sent_seq)"
+      ).run(this.sessionId, absPath, hash, now, whole ? now : null, whole ? await this.currentReadSeq() : null);
+      await this.clearPages(absPath);
+    } else if (pagesAfter.length > 0) {
+      await db.prepare(
+        "UPDATE session_reads SET hash = ?, read_at = ? WHERE session_id = ? AND path = ?"
+      ).run(hash, now, this.sessionId, absPath);
+      await this.recordPages(absPath, hash, pagesAfter, totalLines);
+    }
+
+    const lines = [`[cachebro: ${summary}, now ${totalLines} lines]`];
+    if (externalDiff !== undefined) {
+      lines.push(whole
+        ? `[cachebro: ${label} was modified outside this session since your last read. Those changes were overwritten:]`
+        : `[cachebro: ${label} was modified outside this session since your last read. Your edits were applied on top of these changes:]`);
+      lines.push(externalDiff);
+    } else if (externalUnknown) {
+      lines.push(`[cachebro: ${label} was modified outside this session since your last read. Read it again to see the current content.]`);
+    }
+
+    return { content: lines.join("\n"), hash, totalLines, externalDiff };
   }
 
-  async getStats(): Promise<CacheStats> {
+  /**
+   * Read a single TypeScript/JavaScript declaration. Symbols are tracked by
+   * their own text, so a re-read is "unchanged" even if the rest of the file
+   * changed or the declaration moved.
+   */
+  async readSymbol(filePath: string, name: string, options?: { force?: boolean }): Promise<SymbolReadResult> {
     await this.init();
     const db = this.getDb();
+    const { readFileSync, statSync } = await import("fs");
 
-    const versions = await db.prepare("SELECT COUNT(DISTINCT path) as c FROM file_versions").all();
-    const tokens = await db.prepare("SELECT value FROM stats WHERE key = 'tokens_saved'").all();
-    const sessionTokens = await db.prepare(
-      "SELECT value FROM session_stats WHERE session_id = ? AND key = 'tokens_saved'"
-    ).all(this.sessionId);
+    const absPath = this.allowedPath(filePath);
+    statSync(absPath);
+    if (!isScriptFile(absPath)) {
+      throw new Error(`Symbols can only be read from TypeScript/JavaScript files: ${filePath}`);
+    }
 
-    const filesTracked = (versions[0] as any).c as number;
+    const decoded = decodeFile(readFileSync(absPath));
+    if (decoded.kind === "binary") throw new Error(`Binary file: ${filePath}`);
+    const content = this.redactor.redact(decoded.text);
+
+    const symbol = await findSymbol(content, absPath, name);
+    if (!symbol) {
+      const available = await listTopLevelSymbols(content, absPath);
+      throw new Error(`Symbol "${name}" not found in ${filePath}. Top-level declarations: ${available.join(", ") || "(none)"}`);
+    }
+
+    const allLines = content.split("\n");
+    const text = allLines.slice(symbol.startLine - 1, symbol.endLine).join("\n");
+    const hash = contentHash(text);
+    const now = Date.now();
+    const where = `${symbol.kind} ${symbol.name}, lines ${symbol.startLine}-${symbol.endLine} of ${allLines.length}`;
+
+    const lastRead = options?.force ? [] : await db.prepare(
+      "SELECT hash FROM session_symbols WHERE session_id = ? AND path = ? AND symbol = ?"
+    ).all(this.sessionId, absPath, symbol.name);
+
+    await this.storeBlob(hash, text, symbol.endLine - symbol.startLine + 1, now);
+    await db.prepare(
+      "INSERT OR REPLACE INTO session_symbols (session_id, path, symbol, hash, read_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(this.sessionId, absPath, symbol.name, hash, now);
+
+    if (lastRead.length > 0) {
+      const lastHash = (lastRead[0] as any).hash as string;
+
+      if (lastHash === hash) {
+        const saved = this.countTokens(text);
+        await this.addTokensSaved(saved);
+        return {
+          cached: true,
+          content: `[cachebro: unchanged, ${where}, ${saved} tokens saved]`,
+          hash,
+          totalLines: allLines.length,
+          linesChanged: 0,
+          symbol,
+        };
+      }
+
+      const oldText = await this.loadBlob(lastHash);
+      if (oldText !== null) {
+        const diffResult = computeDiff(oldText, text, `${filePath}#${symbol.name}`, this.diffOptions);
+        const saved = this.countTokens(text) - this.countTokens(diffResult.diff);
+        if (diffResult.hasChanges && !diffResult.budgetExceeded && saved > 0) {
+          await this.addTokensSaved(saved);
+          return {
+            cached: true,
+            content: `[cachebro: changed, ${where}, diff line numbers are relative to the declaration]\n${diffResult.diff}`,
+            diff: diffResult.diff,
+            hash,
+            totalLines: allLines.length,
+            linesChanged: diffResult.linesChanged,
+            symbol,
+          };
+        }
+      }
+    }
 
     return {
-      filesTracked,
-      tokensSaved: tokens.length > 0 ? (tokens[0] as any).value as number : 0,
-      sessionTokensSaved: sessionTokens.length > 0 ? (sessionTokens[0] as any).value as number : 0,
+      cached: false,
+      content: `[cachebro: ${where}]\n${text}`,
+      hash,
+      totalLines: allLines.length,
+      symbol,
     };
   }
 
-  async clear(): Promise<void> {
+  /**
+   * Read a file's structural outline: imports, exports and declaration
+   * signatures with line numbers. Outlines are stored by content hash, so an
+   * unchanged file is never re-parsed; after a change, only the symbols that
+   * were added, removed or had their signature altered are reported.
+   */
+  async readOutline(filePath: string, options?: { force?: boolean }): Promise<OutlineReadResult> {
     await this.init();
     const db = this.getDb();
-    await db.exec("DELETE FROM file_versions; DELETE FROM session_reads; DELETE FROM session_stats; UPDATE stats SET value = 0;");
-  }
+    const { readFileSync, statSync } = await import("fs");
 
-  async close(): Promise<void> {
-    // @tursodatabase/database doesn't expose close — connection is managed internally
+    const absPath = this.allowedPath(filePath);
+    statSync(absPath);
+
+    const decoded = decodeFile(readFileSync(absPath));
+    if (decoded.kind === "binary") throw new Error(`Binary file: ${filePath}`);
+    const content = this.redactor.redact(decoded.text);
+    const hash = contentHash(content);
+    const totalLines = content.split("\n").length;
+    const now = Date.now();
+
+    let outline = await this.loadOutline(hash);
+    if (!outline) {
+      outline = await buildOutline(content, absPath);
+      await db.prepare(
+        "INSERT OR IGNORE INTO outlines (hash, outline, created_at) VALUES (?, ?, ?)"
+      ).run(hash, JSON.stringify(outline), now);
+    }
+
+    const lastRead = options?.force ? [] : await db.prepare(
+      "SELECT hash FROM session_outlines WHERE session_id = ? AND path = ?"
+    ).all(this.sessionId, absPath);
+
+    await db.prepare(
+      "INSERT OR REPLACE INTO session_outlines (session_id, path, hash, read_at) VALUES (?, ?, ?, ?)"
+    ).run(this.sessionId, absPath, hash, now);
+
+    const formatted = formatOutline(outline, totalLines, filePath);
+    const fullTokens = this.countTokens(formatted);
+
+    if (lastRead.length > 0) {
+      const lastHash = (lastRead[0] as any).hash as string;
+      const previous = lastHash === hash ? outline : await this.loadOutline(lastHash);
+
+      if (previous) {
+        const delta = diffOutlines(previous, outline);
+        const affected = delta.added.length + delta.removed.length + delta.changed.length +
+          delta.importsAdded.length + delta.importsRemoved.length;
+
+        if (affected === 0) {
+          await this.addTokensSaved(fullTokens);
+          const moved = delta.moved > 0 ? `, ${delta.moved} symbols moved` : "";
+          const note = lastHash === hash ? "" : ", file changed inside declarations";
+          return {
+            cached: true,
+            content: `[cachebro: outline unchanged, ${outline.entries.length} symbols${note}${moved}, ${fullTokens} tokens saved]`,
+            hash,
+            totalLines,
+            linesChanged: 0,
+            outline,
+          };
+        }
+
+        const deltaText = formatOutlineDelta(delta, totalLines, filePath);
+        const deltaTokens = this.countTokens(deltaText);
+        if (deltaTokens < fullTokens) {
+          await this.addTokensSaved(fullTokens - deltaTokens);
+          return {
+            cached: true,
+            content: deltaText,
+            hash,
+            totalLines,
+            linesChanged: affected,
+            outline,
+          };
+        }
+      }
+    }
+
+    return {
+      cached: false,
+      content: formatted,
+      hash,
+      totalLines,
+      outline,
+    };
   }
 
-  private async addTokensSaved(tokens: number): Promise<void> {
+  /**
+   * List a directory, optionally recursively and filtered by a glob. The
+   * listing is remembered per session; listing it again returns "unchanged"
+   * or only the entries that were added, removed or renamed.
+   */
+  async listDirectory(dirPath: string, options?: ListOptions): Promise<DirectoryListResult> {
+    await this.init();
+    const db = this.getDb();
+    const { statSync } = await import("fs");
+
+    const { path: absPath } = this.access.check(dirPath);
+    if (!statSync(absPath).isDirectory()) throw new Error(`Not a directory: ${dirPath}`);
+
+    const depth = Math.max(1, options?.depth ?? 1);
+    const glob = options?.glob ?? "";
+    const key = `${depth}:${glob}`;
+    const listing = walkDirectory(absPath, { depth, glob: glob || undefined, maxEntries: MAX_LIST_ENTRIES, ignore: this.skip });
+    const serialized = JSON.stringify(listing);
+    const hash = contentHash(serialized);
+    const now = Date.now();
+
+    await db.prepare(
+      "INSERT OR IGNORE INTO directory_snapshots (hash, listing, created_at) VALUES (?, ?, ?)"
+    ).run(hash, serialized, now);
+
+    const lastRead = options?.force ? [] : await db.prepare(
+      "SELECT hash FROM session_listings WHERE session_id = ? AND path = ? AND options = ?"
+    ).all(this.sessionId, absPath, key);
+
+    await db.prepare(
+      "INSERT OR REPLACE INTO session_listings (session_id, path, options, hash, read_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(this.sessionId, absPath, key, hash, now);
+
+    const formatted = formatListing(listing, dirPath);
+    const fullTokens = this.countTokens(formatted);
+    const result = { hash, entries: listing.entries.length, truncated: listing.truncated || undefined };
+
+    if (lastRead.length > 0) {
+      const lastHash = (lastRead[0] as any).hash as string;
+      const previous = lastHash === hash ? listing : await this.loadListing(lastHash);
+
+      if (previous) {
+        const delta = diffListings(previous, listing);
+        const affected = delta.added.length + delta.removed.length + delta.renamed.length;
+
+        if (affected === 0) {
+          await this.addTokensSaved(fullTokens);
+          return {
+            ...result,
+            cached: true,
+            content: `[cachebro: unchanged, ${listing.entries.length} entries in ${dirPath}, ${fullTokens} tokens saved]`,
+          };
+        }
+
+        const deltaText = formatListingDelta(delta, listing, dirPath);
+        const deltaTokens = this.countTokens(deltaText);
+        if (deltaTokens < fullTokens) {
+          await this.addTokensSaved(fullTokens - deltaTokens);
+          return { ...result, cached: true, content: deltaText };
+        }
+      }
+    }
+
+    return { ...result, cached: false, content: formatted };
+  }
+
+  /**
+   * Search file contents under a directory. Per-file matches are cached by
+   * content hash, and a file whose size and mtime are unchanged is not read
+   * again at all. The result set is remembered per session; repeating a
+   * search returns "unchanged" or only the matches that appeared/disappeared.
+   */
+  async search(query: string, options?: SearchOptions): Promise<SearchResult> {
+    await this.init();
+    const db = this.getDb();
+    const { readFileSync, statSync } = await import("fs");
+    const { join } = await import("path");
+
+    const { path: root } = this.access.check(options?.path ?? ".");
+    if (!statSync(root).isDirectory()) throw new Error(`Not a directory: ${options?.path}`);
+    const context = Math.max(0, options?.context ?? 0);
+    const maxMatches = options?.maxMatches ?? DEFAULT_MAX_MATCHES;
+    const matcher = compileMatcher(query, { regex: options?.regex ?? false, caseSensitive: options?.caseSensitive ?? false, context });
+    const queryKey = JSON.stringify([root, options?.glob ?? "", matcher.key]);
+    const label = `search ${JSON.stringify(query)} in ${options?.path ?? "."}`;
+    const now = Date.now();
+
+    const files = walkDirectory(root, { depth: Infinity, glob: options?.glob, maxEntries: MAX_SEARCH_FILES, ignore: this.skip })
+      .entries.filter((e) => !e.path.endsWith("/"));
+
+    const index = new Map<string, { mtime: number; size: number; hash: string }>();
+    for (const row of await db.prepare("SELECT path, mtime, size, hash FROM search_index").all()) {
+      const r = row as any;
+      index.set(r.path, { mtime: r.mtime, size: r.size, hash: r.hash });
+    }
+    const hits = new Map<string, FileMatch[]>();
+    for (const row of await db.prepare("SELECT hash, matches FROM search_hits WHERE matcher = ?").all(matcher.key)) {
+      hits.set((row as any).hash, JSON.parse((row as any).matches));
+    }
+
+    const matches: SearchMatch[] = [];
+    let filesScanned = 0;
+    let truncated = false;
+    const newHits: Array<[string, FileMatch[]]> = [];
+    const newIndex: Array<[string, number, number, string]> = [];
+
+    for (const file of files) {
+      const absPath = join(root, file.path);
+      // Links out of the allowed directories and secret-bearing files are never indexed
+      try {
+        if (this.access.check(absPath).sensitive) continue;
+      } catch {
+        continue;
+      }
+      let stat;
+      try {
+        stat = statSync(absPath);
+      } catch {
+        continue;
+      }
+      if (stat.size > MAX_SEARCH_FILE_BYTES) continue;
+      const mtime = Math.floor(stat.mtimeMs);
+
+      // Unchanged size and mtime: trust the hash from the last search
+      let hash: string | null = null;
+      const known = index.get(absPath);
+      if (known && known.mtime === mtime && known.size === stat.size) hash = known.hash;
+
+      let found = hash !== null ? hits.get(hash) : undefined;
+      if (!found) {
+        // read_file may already hold this version; otherwise read it from disk
+        let text = hash !== null ? await this.loadVersion(absPath, hash) : null;
+        if (text === null) {
+          const bytes = readFileSync(absPath);
+          const decoded = decodeFile(bytes);
+          text = decoded.kind === "text" ? this.redactor.redact(decoded.text) : "";
+          hash = contentHash(decoded.kind === "text" ? text : bytes);
+        }
+        found = hits.get(hash!);
+        if (!found) {
+          found = text ? findMatches(text, matcher, context) : [];
+          filesScanned++;
+          hits.set(hash!, found);
+          newHits.push([hash!, found]);
+        }
+        if (!known || known.hash !== hash || known.mtime !== mtime || known.size !== stat.size) {
+          newIndex.push([absPath, mtime, stat.size, hash!]);
+        }
+      }
+
+      for (const m of found) {
+        if (matches.length >= maxMatches) {
+          truncated = true;
+          break;
+        }
+        matches.push({ path: file.path, ...m });
+      }
+      if (truncated) break;
+    }
+
+    // Written in one batch: other sessions on the connection cannot run
+    // statements in the middle of it
+    await this.batch([
+      ...newHits.map(([hash, found]) =>
+        `INSERT OR REPLACE INTO search_hits (matcher, hash, matches) VALUES (${sqlValue(matcher.key)}, ${sqlValue(hash)}, ${sqlValue(JSON.stringify(found))})`),
+      ...newIndex.map(([path, mtime, size, hash]) =>
+        `INSERT OR REPLACE INTO search_index (path, mtime, size, hash) VALUES (${sqlValue(path)}, ${mtime}, ${size}, ${sqlValue(hash)})`),
+    ]);
+
+    const serialized = JSON.stringify(matches);
+    const hash = contentHash(serialized);
+    await db.prepare(
+      "INSERT OR IGNORE INTO search_results (hash, results, created_at) VALUES (?, ?, ?)"
+    ).run(hash, serialized, now);
+
+    const lastRead = options?.force ? [] : await db.prepare(
+      "SELECT hash FROM session_searches WHERE session_id = ? AND query = ?"
+    ).all(this.sessionId, queryKey);
+
+    await db.prepare(
+      "INSERT OR REPLACE INTO session_searches (session_id, query, matcher, hash, read_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(this.sessionId, queryKey, matcher.key, hash, now);
+
+    const fileTotal = fileCount(matches);
+    const summary = matches.length === 0 ? "no matches" : `${matches.length} matches in ${fileTotal} files`;
+    const formatted = [
+      `[cachebro: ${label}, ${summary}${truncated ? `, stopped at ${maxMatches}` : ""}]`,
+      ...formatMatches(matches),
+    ].join("\n");
+    const fullTokens = this.countTokens(formatted);
+    const result = { matches: matches.length, files: fileTotal, filesScanned, truncated: truncated || undefined };
+
+    if (lastRead.length > 0) {
+      const lastHash = (lastRead[0] as any).hash as string;
+      const rows = lastHash === hash ? [] : await db.prepare("SELECT results FROM search_results WHERE hash = ?").all(lastHash);
+
+      if (lastHash === hash) {
+        await this.addTokensSaved(fullTokens);
+        return {
+          ...result,
+          cached: true,
+          content: `[cachebro: ${label}, same ${summary}, unchanged, ${fullTokens} tokens saved]`,
+        };
+      }
+
+      if (rows.length > 0) {
+        const previous = JSON.parse((rows[0] as any).results) as SearchMatch[];
+        const delta = diffMatches(previous, matches);
+        const deltaText = delta.appeared.length + delta.disappeared.length === 0
+          ? `[cachebro: ${label}, same ${summary}, unchanged (lines moved), ${fullTokens} tokens saved]`
+          : formatSearchDelta(delta, matches, label);
+        const deltaTokens = this.countTokens(deltaText);
+        if (deltaTokens < fullTokens) {
+          await this.addTokensSaved(fullTokens - deltaTokens);
+          return { ...result, cached: true, content: deltaText };
+        }
+      }
+    }
+
+    return { ...result, cached: false, content: formatted };
+  }
+
+  private async loadListing(hash: string): Promise<Listing | null> {
+    const rows = await this.getDb().prepare("SELECT listing FROM directory_snapshots WHERE hash = ?").all(hash);
+    if (rows.length === 0) return null;
+    return JSON.parse((rows[0] as any).listing) as Listing;
+  }
+
+  private async loadOutline(hash: string): Promise<Outline | null> {
+    const rows = await this.getDb().prepare("SELECT outline FROM outlines WHERE hash = ?").all(hash);
+    if (rows.length === 0) return null;
+    return JSON.parse((rows[0] as any).outline) as Outline;
+  }
+
+  /**
+   * Send line ranges of the current version, stopping at the token budget.
+   * When the session ends up holding only part of the version (a partial
+   * read, a response cut short, or earlier pages already sent), the covered
+   * lines are recorded so later reads only send what is missing.
+   */
+  private async sendRanges(
+    absPath: string,
+    hash: string,
+    lines: string[],
+    ranges: LineRange[],
+    alreadySent: LineRange[],
+    budget: number,
+    labelRanges: boolean,
+  ): Promise<{ content: string; truncated: boolean; nextOffset?: number }> {
+    const parts: string[] = [];
+    const sent: LineRange[] = [];
+    let remaining = budget > 0 ? budget : Infinity;
+    let marker = "";
+    let truncated = false;
+    let nextOffset: number | undefined;
+
+    for (const [start, end] of ranges) {
+      if (remaining <= 0) {
+        truncated = true;
+        nextOffset = start;
+        marker = `[cachebro: response budget of ~${budget} tokens reached before line ${start} of ${lines.length}. Call read_file with offset=${start} to continue.]`;
+        break;
+      }
+      const page = takePage(lines, start, end, remaining, (text) => this.countTokens(text));
+      if (labelRanges) parts.push(`[cachebro: lines ${start}-${page.end} of ${lines.length}]`);
+      parts.push(page.text);
+      // The rest of a cut line was never sent, so the line is not held
+      sent.push([start, page.cutChars !== undefined ? page.end - 1 : page.end]);
+      remaining -= this.countTokens(page.text);
+
+      if (page.end < end || page.cutChars !== undefined) {
+        truncated = true;
+        const cut = page.cutChars !== undefined
+          ? `line ${page.end} cut after ${page.cutChars.toLocaleString()} characters, `
+          : "";
+        // The rest of a cut line cannot be paged; only offer to continue if lines remain
+        if (page.end < lines.length) nextOffset = page.end + 1;
+        const next = nextOffset !== undefined ? ` Call read_file with offset=${nextOffset} to continue.` : "";
+        marker = `[cachebro: truncated at line ${page.end} of ${lines.length}, ${cut}~${budget} token budget reached.${next}]`;
+        break;
+      }
+    }
+
+    const held = mergeRanges([...alreadySent, ...sent]);
+    if (held.length > 0) {
+      await this.recordPages(absPath, hash, held, lines.length);
+    } else {
+      // No pages would mean the whole version; the session holds none of it
+      await this.clearPages(absPath);
+      await this.getDb().prepare(
+        "DELETE FROM session_reads WHERE session_id = ? AND path = ?"
+      ).run(this.sessionId, absPath);
+    }
+
+    if (marker) parts.push(`\n${marker}`);
+    return { content: parts.join("\n"), truncated, nextOffset };
+  }
+
+  /** Pages of `hash` this session holds. Empty means the whole version, or none at all. */
+  private async getPages(absPath: string, hash: string): Promise<LineRange[]> {
+    const rows = await this.getDb().prepare(
+      "SELECT start_line, end_line FROM session_pages WHERE session_id = ? AND path = ? AND hash = ?"
+    ).all(this.sessionId, absPath, hash);
+    return mergeRanges(rows.map((r: any) => [r.start_line, r.end_line] as LineRange));
+  }
+
+  private async recordPages(absPath: string, hash: string, pages: LineRange[], totalLines: number): Promise<void> {
+    const db = this.getDb();
+    const merged = mergeRanges(pages);
+    await this.clearPages(absPath);
+    // Once every line has been sent, the session simply holds the whole version
+    if (subtractRanges([1, totalLines], merged).length === 0) return;
+    for (const [start, end] of merged) {
+      await db.prepare(
+        "INSERT OR REPLACE INTO session_pages (session_id, path, hash, start_line, end_line) VALUES (?, ?, ?, ?, ?)"
+      ).run(this.sessionId, absPath, hash, start, end);
+    }
+  }
+
+  private async clearPages(absPath: string): Promise<void> {
+    await this.getDb().prepare(
+      "DELETE FROM session_pages WHERE session_id = ? AND path = ?"
+    ).run(this.sessionId, absPath);
+  }
+
+  /**
+   * Binary files are never stored or diffed. The agent gets a one-line summary,
+   * and the session pointer tracks the raw-byte hash so re-reads can say
+   * whether the file changed. No version is stored under that hash: nothing
+   * may search the summary or diff against it.
+   */
+  private async readBinary(absPath: string, type: string, bytes: Uint8Array, force: boolean): Promise<FileReadResult> {
     const db = this.getDb();
+    const hash = contentHash(bytes);
+    const now = Date.now();
+
+    const lastRead = force ? [] : await db.prepare(
+      "SELECT hash FROM session_reads WHERE session_id = ? AND path = ?"
+    ).all(this.sessionId, absPath);
+    const unchanged = lastRead.length > 0 && (lastRead[0] as any).hash === hash;
+    const status = lastRead.length === 0 ? "" : unchanged ? " unchanged" : " changed";
+    const details = `${type}, ${bytes.length.toLocaleString()} bytes, hash ${hash}`;
+
     await db.prepare(
-      "UPDATE stats SET value = value + ? WHERE key = 'tokens_saved'"
-    ).run(tokens);
+      "INSERT OR REPLACE INTO session_reads (session_id, path, hash, read_at) VALUES (?, ?, ?, ?)"
+    ).run(this.sessionId, absPath, hash, now);
+
+    return {
+      cached: unchanged,
+      content: `[cachebro: binary file${status}, ${details}]`,
+      hash,
+      linesChanged: unchanged ? 0 : undefined,
+      binary: true,
+    };
+  }
+
+  /** Store content once per hash and record that `path` had it. */
+  private async storeVersion(absPath: string, hash: string, content: string, lines: number, now: number): Promise<void> {
+    await this.storeBlob(hash, content, lines, now);
+    await this.getDb().prepare(
+      "INSERT OR IGNORE INTO file_versions (path, hash, created_at) VALUES (?, ?, ?)"
+    ).run(absPath, hash, now);
+  }
+
+  private async storeBlob(hash: string, content: string, lines: number, now: number): Promise<void> {
+    const db = this.getDb();
+    const existing = await db.prepare("SELECT 1 FROM blobs WHERE hash = ?").all(hash);
+    if (existing.length > 0) return;
     await db.prepare(
-      "INSERT INTO session_stats (session_id, key, value) VALUES (?, 'tokens_saved', ?) ON CONFLICT(session_id, key) DO UPDATE SET value = value + ?"
-    ).run(this.sessionId, tokens, tokens);
+      "INSERT OR IGNORE INTO blobs (hash, data, size, lines, created_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(hash, compress(content), Buffer.byteLength(content, "utf-8"), lines, now);
+  }
+
+  /** Content stored before redaction, or under other rules, is redacted on the way out */
+  private async loadBlob(hash: string): Promise<string | null> {
+    const rows = await this.getDb().prepare("SELECT data FROM blobs WHERE hash = ?").all(hash);
+    if (rows.length === 0) return null;
+    return this.redactor.redact(decompress((rows[0] as any).data));
+  }
+
+  private async loadVersion(absPath: string, hash: string): Promise<string | null> {
+    const rows = await this.getDb().prepare(
+      "SELECT b.data FROM file_versions v JOIN blobs b ON b.hash = v.hash WHERE v.path = ? AND v.hash = ?"
+    ).all(absPath, hash);
+    if (rows.length === 0) return null;
+    return this.redactor.redact(decompress((rows[0] as any).data));
+  }
+
+  /** The ignore rule excluding a path from watching, listings and searches, if any. */
+  ignoredBy(filePath: string): IgnoreMatch | undefined {
+    return this.ignore.match(filePath);
+  }
+
+  /** Called by the watcher for every change; an ignore file's rules are read again on next use. */
+  onIgnoreFileChanged(filePath: string): void {
+    this.ignore.invalidate(filePath);
+  }
+
+  async onFileChanged(_filePath: string): Promise<void> {
+    // Hash check in readFile handles staleness detection.
+  }
+
+  async onFileDeleted(filePath: string): Promise<void> {
+    await this.init();
+    const db = this.getDb();
+    const { resolve } = await import("path");
+    const absPath = resolve(filePath);
+    await db.prepare("DELETE FROM file_versions WHERE path = ?").run(absPath);
+    await db.prepare("DELETE FROM session_reads WHERE path = ?").run(absPath);
+    await db.prepare("DELETE FROM session_pages WHERE path = ?").run(absPath);
+    await db.prepare("DELETE FROM session_symbols WHERE path = ?").run(absPath);
+    await db.prepare("DELETE FROM session_outlines WHERE path = ?").run(absPath);
+    await db.prepare("DELETE FROM search_index WHERE path = ?").run(absPath);
+  }
+
+  async getStats(): Promise<CacheStats> {
+    await this.init();
+    const db = this.getDb();
+
+    const versions = await db.prepare("SELECT COUNT(DISTINCT path) as c FROM file_versions").all();
+    const tokens = await db.prepare("SELECT key, value FROM stats WHERE key LIKE 'tokens_saved:%'").all();
+    const sessionTokens = await db.prepare(
+      "SELECT value FROM session_stats WHERE session_id = ? AND key = ?"
+    ).all(this.sessionId, this.tokensSavedKey());
+
+    const reads = await db.prepare(
+      "SELECT key, value FROM stats WHERE key LIKE 'reads:%' OR key LIKE 'bytes:%'"
+    ).all();
+    const sessionReads = await db.prepare(
+      "SELECT key, value FROM session_stats WHERE session_id = ? AND (key LIKE 'reads:%' OR key LIKE 'bytes:%')"
+    ).all(this.sessionId);
+    const mostRead = await db.prepare(
+      "SELECT path, reads, hits, changes, last_read_at FROM file_stats ORDER BY reads DESC, last_read_at DESC LIMIT ?"
+    ).all(TOP_FILES);
+    const mostChanged = await db.prepare(
+      "SELECT path, reads, hits, changes, last_read_at FROM file_stats WHERE changes > 0 ORDER BY changes DESC, last_read_at DESC LIMIT ?"
+    ).all(TOP_FILES);
+
+    const filesTracked = (versions[0] as any).c as number;
+    const byTokenizer: Record<string, number> = {};
+    for (const r of tokens as any[]) byTokenizer[r.key.slice("tokens_saved:".length)] = r.value;
+    const fileStats = (r: any): FileStats => ({ path: r.path, reads: r.reads, hits: r.hits, changes: r.changes, lastReadAt: r.last_read_at });
+
+    return {
+      filesTracked,
+      tokenizer: this.tokenizer.name,
+      tokensSaved: byTokenizer[this.tokenizer.name] ?? 0,
+      sessionTokensSaved: sessionTokens.length > 0 ? (sessionTokens[0] as any).value as number : 0,
+      tokensSavedByTokenizer: byTokenizer,
+      reads: readCounters(reads),
+      sessionReads: readCounters(sessionReads),
+      mostRead: mostRead.map(fileStats),
+      mostChanged: mostChanged.map(fileStats),
+    };
+  }
+
+  /**
+   * Drop expired sessions and file versions no session still references,
+   * keeping the configured number of recent versions per path and staying
+   * under the size budget. The current session is never expired.
+   */
+  async gc(options?: GcOptions): Promise<GcResult> {
+    await this.init();
+    const db = this.getDb();
+    const dryRun = options?.dryRun ?? false;
+    // Ages are measured from the start, not after the size queries below
+    const now = Date.now();
+
+    const versionRows = await db.prepare(
+      "SELECT v.path, v.hash, LENGTH(b.data) AS bytes, v.created_at FROM file_versions v JOIN blobs b ON b.hash = v.hash"
+    ).all();
+    const readRows = await db.prepare(
+      "SELECT session_id, path, hash, read_at FROM session_reads"
+    ).all();
+
+    const versions: GcVersion[] = versionRows.map((r: any) => ({
+      path: r.path, hash: r.hash, bytes: r.bytes, createdAt: r.created_at,
+    }));
+    const reads: GcRead[] = readRows.map((r: any) => ({
+      sessionId: r.session_id, path: r.path, hash: r.hash, readAt: r.read_at,
+    }));
+
+    const activity = new Map<string, number>();
+    for (const [sessionId, info] of await this.sessionActivity()) activity.set(sessionId, info.lastActivity);
+
+    // The budget is for the whole database; what is not blobs (tables,
+    // indexes, the schema) comes out of it before blobs are counted
+    const before = await this.dbSize();
+    const blobRows = await db.prepare("SELECT COALESCE(SUM(LENGTH(data)), 0) AS bytes FROM blobs").all();
+    const overhead = Math.max(0, before.used - (blobRows[0] as any).bytes);
+    const maxDbBytes = this.retention.maxDbBytes > 0 ? Math.max(1, this.retention.maxDbBytes - overhead) : 0;
+
+    const plan = planGc(versions, reads, { ...this.retention, maxDbBytes }, now, this.sessionId, activity);
+
+    // Read events past the retention limit: everything up to the oldest one kept
+    const maxEvents = this.retention.maxReadEvents;
+    const cutoff = maxEvents > 0
+      ? await db.prepare("SELECT id FROM read_events ORDER BY id DESC LIMIT 1 OFFSET ?").all(maxEvents)
+      : [];
+    const lastDropped = cutoff.length > 0 ? (cutoff[0] as any).id as number : 0;
+    const eventsRemoved = lastDropped > 0
+      ? ((await db.prepare("SELECT COUNT(*) AS c FROM read_events WHERE id <= ?").all(lastDropped))[0] as any).c as number
+      : 0;
+
+    if (!dryRun) {
+      for (const sessionId of plan.expiredSessions) {
+        await this.dropSession(sessionId);
+      }
+      for (const v of plan.removedVersions) {
+        await db.prepare("DELETE FROM file_versions WHERE path = ? AND hash = ?").run(v.path, v.hash);
+      }
+      const orphans = await db.prepare(
+        "SELECT b.hash FROM blobs b LEFT JOIN file_versions v ON v.hash = b.hash LEFT JOIN session_symbols s ON s.hash = b.hash WHERE v.path IS NULL AND s.path IS NULL"
+      ).all();
+      for (const o of orphans) {
+        await db.prepare("DELETE FROM blobs WHERE hash = ?").run((o as any).hash);
+      }
+      const staleOutlines = await db.prepare(
+        "SELECT o.hash FROM outlines o LEFT JOIN file_versions v ON v.hash = o.hash LEFT JOIN session_outlines s ON s.hash = o.hash WHERE v.path IS NULL AND s.path IS NULL"
+      ).all();
+      for (const o of staleOutlines) {
+        await db.prepare("DELETE FROM outlines WHERE hash = ?").run((o as any).hash);
+      }
+      const staleListings = await db.prepare(
+        "SELECT d.hash FROM directory_snapshots d LEFT JOIN session_listings s ON s.hash = d.hash WHERE s.path IS NULL"
+      ).all();
+      for (const d of staleListings) {
+        await db.prepare("DELETE FROM directory_snapshots WHERE hash = ?").run((d as any).hash);
+      }
+      const staleResults = await db.prepare(
+        "SELECT r.hash FROM search_results r LEFT JOIN session_searches s ON s.hash = r.hash WHERE s.query IS NULL"
+      ).all();
+      for (const r of staleResults) {
+        await db.prepare("DELETE FROM search_results WHERE hash = ?").run((r as any).hash);
+      }
+      // Per-file hits are kept only for queries some session still remembers,
+      // and only for content that is still on disk
+      const staleHits = await db.prepare(
+        "SELECT h.matcher, h.hash FROM search_hits h LEFT JOIN session_searches s ON s.matcher = h.matcher LEFT JOIN search_index i ON i.hash = h.hash WHERE s.query IS NULL OR i.path IS NULL"
+      ).all();
+      for (const h of staleHits) {
+        await db.prepare("DELETE FROM search_hits WHERE matcher = ? AND hash = ?").run((h as any).matcher, (h as any).hash);
+      }
+      if (eventsRemoved > 0) {
+        await db.prepare("DELETE FROM read_events WHERE id <= ?").run(lastDropped);
+        await this.trimEventLog(lastDropped);
+      }
+      if (plan.expiredSessions.length > 0 || plan.removedVersions.length > 0 || eventsRemoved > 0) {
+        // Engines without VACUUM keep the freed pages and reuse them for
+        // later writes, so the file stops growing instead of shrinking
+        try {
+          await db.exec("VACUUM");
+        } catch {}
+      }
+    }
+
+    const after = dryRun ? before : await this.dbSize();
+    const bytesFreed = dryRun ? plan.bytesBefore - plan.bytesAfter : before.used - after.used;
+    return {
+      dryRun,
+      sessionsExpired: plan.expiredSessions.length,
+      versionsRemoved: plan.removedVersions.length,
+      eventsRemoved,
+      bytesFreed,
+      bytesRemaining: dryRun ? before.used - bytesFreed : after.used,
+      fileBytes: after.file,
+    };
+  }
+
+  /** Database size from its pages: the whole file, and the pages not on the free list. */
+  private async dbSize(): Promise<{ file: number; used: number }> {
+    const db = this.getDb();
+    const pragma = async (name: string) => Number(Object.values((await db.prepare(`PRAGMA ${name}`).all())[0] as any)[0]);
+    const pageSize = await pragma("page_size");
+    const pages = await pragma("page_count");
+    const free = await pragma("freelist_count");
+    return { file: pages * pageSize, used: (pages - free) * pageSize };
+  }
+
+  /** Logged readFile()/readFileFull() calls, oldest first. */
+  async getReadEvents(query?: ReadEventQuery): Promise<ReadEvent[]> {
+    await this.init();
+    const { resolve, sep } = await import("path");
+    const where = ["id > ?"];
+    const params: Array<string | number> = [query?.afterId ?? 0];
+    if (query?.sessionId) {
+      where.push("session_id = ?");
+      params.push(query.sessionId);
+    }
+    // A file or directory narrows the query; a glob is matched below
+    const glob = query?.path !== undefined && isGlob(query.path);
+    if (query?.path && !glob) {
+      const abs = resolve(query.path);
+      const prefix = abs.endsWith(sep) ? abs : abs + sep;
+      where.push("(path = ? OR substr(path, 1, ?) = ?)");
+      params.push(abs, prefix.length, prefix);
+    }
+    const limit = query?.limit && !glob ? query.limit : 0;
+    const rows = await this.getDb().prepare(
+      `SELECT * FROM read_events WHERE ${where.join(" AND ")} ORDER BY id ${limit ? "DESC LIMIT ?" : ""}`
+    ).all(...params, ...(limit ? [limit] : []));
+    if (limit) rows.reverse();
+
+    let events: ReadEvent[] = (rows as any[]).map((r) => ({
+      id: r.id,
+      sessionId: r.session_id,
+      path: r.path,
+      offset: r.line_offset ?? undefined,
+      limit: r.line_limit ?? undefined,
+      oldHash: r.old_hash ?? undefined,
+      newHash: r.new_hash ?? undefined,
+      kind: r.kind,
+      tokensReturned: r.tokens_returned,
+      tokensSaved: r.tokens_saved,
+      error: r.error ?? undefined,
+      timestamp: r.created_at,
+    }));
+    if (glob) {
+      const matches = pathMatcher([query!.path!]);
+      events = events.filter((e) => matches(e.path));
+    }
+    return query?.limit ? events.slice(-query.limit) : events;
+  }
+
+  /** Every session with tracked state, most recently active first. */
+  async listSessions(): Promise<SessionInfo[]> {
+    await this.init();
+    return [...(await this.sessionActivity()).values()].sort((a, b) => b.lastActivity - a.lastActivity);
+  }
+
+  async getSession(sessionId: string): Promise<SessionDetail | null> {
+    await this.init();
+    const info = (await this.sessionActivity()).get(sessionId);
+    if (!info) return null;
+    const rows = await this.getDb().prepare(
+      "SELECT path, read_at FROM session_reads WHERE session_id = ? ORDER BY read_at DESC"
+    ).all(sessionId);
+    return { ...info, files: rows.map((r: any) => ({ path: r.path, readAt: r.read_at })) };
+  }
+
+  /**
+   * Everything this session believes the agent has seen: each file's version,
+   * whether it has changed on disk since, and which lines were seen if only
+   * part of it was.
+   */
+  async getSessionManifest(): Promise<SessionManifest> {
+    await this.init();
+    const db = this.getDb();
+    const { readFileSync } = await import("fs");
+
+    const rows = await db.prepare(
+      "SELECT r.path, r.hash, r.read_at, r.sent_at, r.sent_seq, b.lines FROM session_reads r LEFT JOIN blobs b ON b.hash = r.hash WHERE r.session_id = ? ORDER BY r.read_at DESC"
+    ).all(this.sessionId);
+    const pageRows = await db.prepare(
+      "SELECT path, hash, start_line, end_line FROM session_pages WHERE session_id = ?"
+    ).all(this.sessionId);
+    const now = Date.now();
+    const nextSeq = (await this.currentReadSeq()) + 1;
+
+    const files: SessionManifestEntry[] = [];
+    for (const r of rows as any[]) {
+      let status: SessionManifestEntry["status"];
+      try {
+        const bytes = readFileSync(r.path);
+        const decoded = decodeFile(bytes);
+        const hash = contentHash(decoded.kind === "binary" ? bytes : this.redactor.redact(decoded.text));
+        status = hash === r.hash ? "unchanged" : "changed";
+      } catch {
+        status = "deleted";
+      }
+      const pages = mergeRanges(pageRows
+        .filter((p: any) => p.path === r.path && p.hash === r.hash)
+        .map((p: any) => [p.start_line, p.end_line] as LineRange));
+
+      const entry: SessionManifestEntry = { path: r.path, hash: r.hash, lines: r.lines ?? 0, readAt: r.read_at, status };
+      if (pages.length > 0) entry.partial = pages;
+      if (this.isStale(r, now, nextSeq)) entry.stale = true;
+      files.push(entry);
+    }
+    return { sessionId: this.sessionId, files };
+  }
+
+  /** Drop a session's read state. Returns false if there was none. */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    await this.init();
+    if (!(await this.sessionActivity()).has(sessionId)) return false;
+    await this.dropSession(sessionId);
+    return true;
+  }
+
+  /** Drop every session idle for longer than `olderThanMs`, except the current one. */
+  async pruneSessions(olderThanMs: number): Promise<string[]> {
+    await this.init();
+    const cutoff = Date.now() - olderThanMs;
+    const pruned: string[] = [];
+    for (const info of (await this.sessionActivity()).values()) {
+      if (info.sessionId !== this.sessionId && info.lastActivity < cutoff) {
+        await this.dropSession(info.sessionId);
+        pruned.push(info.sessionId);
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Forget what this session has seen of some files, e.g. after the agent's
+   * context was compacted. Their next read returns full content. Patterns are
+   * paths (a directory covers everything under it) or globs relative to the
+   * current directory. Stored versions are kept. Returns the forgotten paths.
+   */
+  async forgetFiles(patterns: string[]): Promise<string[]> {
+    await this.init();
+    const db = this.getDb();
+    const matches = pathMatcher(patterns);
+
+    const known = new Set<string>();
+    for (const table of FILE_SESSION_TABLES) {
+      const rows = await db.prepare(`SELECT DISTINCT path FROM ${table} WHERE session_id = ?`).all(this.sessionId);
+      for (const r of rows as any[]) known.add(r.path);
+    }
+    const forgotten = [...known].filter(matches).sort();
+
+    for (const path of forgotten) {
+      for (const table of FILE_SESSION_TABLES) {
+        await db.prepare(`DELETE FROM ${table} WHERE session_id = ? AND path = ?`).run(this.sessionId, path);
+      }
+    }
+    return forgotten;
+  }
+
+  /**
+   * Forget everything this session has seen, keeping its id and stats.
+   * Returns the number of files that were tracked.
+   */
+  async resetSession(): Promise<number> {
+    await this.init();
+    const db = this.getDb();
+    const rows = await db.prepare("SELECT COUNT(*) AS n FROM session_reads WHERE session_id = ?").all(this.sessionId);
+    for (const table of SESSION_TABLES) {
+      if (table === "session_stats") continue;
+      await db.prepare(`DELETE FROM ${table} WHERE session_id = ?`).run(this.sessionId);
+    }
+    return (rows[0] as any).n as number;
+  }
+
+  private async sessionActivity(): Promise<Map<string, SessionInfo>> {
+    const db = this.getDb();
+    const sessions = new Map<string, SessionInfo>();
+    const get = (sessionId: string) => {
+      let info = sessions.get(sessionId);
+      if (!info) {
+        info = { sessionId, filesRead: 0, lastActivity: 0, tokensSaved: 0 };
+        sessions.set(sessionId, info);
+      }
+      return info;
+    };
+
+    for (const table of ["session_reads", "session_symbols", "session_outlines", "session_listings", "session_searches"]) {
+      const rows = await db.prepare(
+        `SELECT session_id, COUNT(*) AS n, MAX(read_at) AS last FROM ${table} GROUP BY session_id`
+      ).all();
+      for (const r of rows as any[]) {
+        const info = get(r.session_id);
+        info.lastActivity = Math.max(info.lastActivity, r.last ?? 0);
+        if (table === "session_reads") info.filesRead = r.n;
+      }
+    }
+    // Sessions that only paged through files or only have counters still
+    // exist, with no known activity, so they expire like the others
+    for (const table of ["session_pages", "session_stats"]) {
+      const rows = await db.prepare(`SELECT DISTINCT session_id FROM ${table}`).all();
+      for (const r of rows as any[]) get(r.session_id);
+    }
+    const stats = await db.prepare("SELECT session_id, value FROM session_stats WHERE key = ?").all(this.tokensSavedKey());
+    for (const r of stats as any[]) get(r.session_id).tokensSaved = r.value;
+
+    return sessions;
+  }
+
+  private async dropSession(sessionId: string): Promise<void> {
+    const db = this.getDb();
+    for (const table of SESSION_TABLES) {
+      await db.prepare(`DELETE FROM ${table} WHERE session_id = ?`).run(sessionId);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    const db = this.getDb();
+    await db.exec("DELETE FROM file_versions; DELETE FROM blobs; DELETE FROM session_reads; DELETE FROM session_pages; DELETE FROM session_symbols; DELETE FROM outlines; DELETE FROM session_outlines; DELETE FROM directory_snapshots; DELETE FROM session_listings; DELETE FROM search_index; DELETE FROM search_hits; DELETE FROM search_results; DELETE FROM session_searches; DELETE FROM session_stats; DELETE FROM file_stats; DELETE FROM read_events; UPDATE stats SET value = 0;");
+    // Event ids start over once the table is empty
+    if (this.eventLog) {
+      const { existsSync, writeFileSync } = await import("fs");
+      if (existsSync(this.eventLog)) writeFileSync(this.eventLog, "");
+    }
+  }
+
+  async close(): Promise<void> {
+    // @tursodatabase/database doesn't expose close — connection is managed internally
+  }
+
+  /**
+   * Run statements in one transaction, as a single exec. The connection runs
+   * an exec to the end before any other statement, so sessions sharing it
+   * cannot have their writes land inside the transaction, or be rolled back
+   * with it.
+   */
+  private async batch(statements: string[]): Promise<void> {
+    if (statements.length === 0) return;
+    const db = this.getDb();
+    try {
+      await db.exec(`BEGIN;\n${statements.join(";\n")};\nCOMMIT;`);
+    } catch (e) {
+      // Nothing to undo if BEGIN itself failed
+      await db.exec("ROLLBACK").catch(() => {});
+      throw e;
+    }
+  }
+
+  /**
+   * Run `fn` in a transaction, after any other session's on this connection.
+   * Statements of sessions outside the queue can still run while `fn` awaits,
+   * so this is only for work done before sessions are served; see batch().
+   */
+  private async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const root = this.shared ?? this;
+    const run = root.transactions.then(async () => {
+      const db = this.getDb();
+      await db.exec("BEGIN");
+      try {
+        const result = await fn();
+        await db.exec("COMMIT");
+        return result;
+      } catch (e) {
+        await db.exec("ROLLBACK");
+        throw e;
+      }
+    });
+    root.transactions = run.catch(() => {});
+    return run;
+  }
+
+  /** Resolve a path for any tool but read_file: outside the roots or sensitive, it is refused. */
+  private allowedPath(filePath: string): string {
+    const { path, sensitive } = this.access.check(filePath);
+    if (sensitive) {
+      const instead = this.serveSensitive ? " Use read_file, which serves it without caching." : "";
+      throw new Error(`Refused: ${filePath} matches the sensitive-file pattern "${sensitive}" and may hold secrets.${instead}`);
+    }
+    return path;
+  }
+
+  /**
+   * A file that may hold secrets: refused, or served straight from disk with
+   * no content or hash stored.
+   */
+  private async readSensitive(absPath: string, filePath: string, pattern: string, options?: ReadOptions): Promise<FileReadResult> {
+    if (!this.serveSensitive) {
+      throw new Error(`Refused: ${filePath} matches the sensitive-file pattern "${pattern}" and may hold secrets. cachebro does not read such files.`);
+    }
+    const { readFileSync } = await import("fs");
+    const decoded = decodeFile(readFileSync(absPath));
+    const label = `[cachebro: not cached, ${filePath} matches the sensitive-file pattern "${pattern}"]`;
+    if (decoded.kind === "binary") {
+      return { cached: false, content: `${label}\n[cachebro: binary file, ${decoded.type}]`, hash: "", binary: true };
+    }
+    const lines = this.redactor.redact(decoded.text).split("\n");
+    const start = options?.offset ? options.offset - 1 : 0;
+    const end = options?.limit ? start + options.limit : lines.length;
+    return { cached: false, content: `${label}\n${lines.slice(start, end).join("\n")}`, hash: "", totalLines: lines.length };
+  }
+
+  /** Count a read in this session; the staleness policy measures age in reads. */
+  private async nextReadSeq(): Promise<number> {
+    const rows = await this.getDb().prepare(
+      "INSERT INTO session_stats (session_id, key, value) VALUES (?, 'reads', 1) ON CONFLICT(session_id, key) DO UPDATE SET value = value + 1 RETURNING value"
+    ).all(this.sessionId);
+    return (rows[0] as any).value as number;
+  }
+
+  private async currentReadSeq(): Promise<number> {
+    const rows = await this.getDb().prepare(
+      "SELECT value FROM session_stats WHERE session_id = ? AND key = 'reads'"
+    ).all(this.sessionId);
+    return rows.length > 0 ? (rows[0] as any).value as number : 0;
+  }
+
+  /** Record that the file's content was just put in front of the agent. */
+  private async markSent(absPath: string, now: number, seq: number): Promise<void> {
+    await this.getDb().prepare(
+      "UPDATE session_reads SET sent_at = ?, sent_seq = ? WHERE session_id = ? AND path = ?"
+    ).run(now, seq, this.sessionId, absPath);
+  }
+
+  /**
+   * Has the content this session was sent likely dropped out of the agent's
+   * context? Rows from before sent_* was tracked fall back to read_at.
+   */
+  private isStale(row: any, now: number, seq: number): boolean {
+    const { maxAgeMs, maxReadsSince } = this.staleness;
+    if (maxAgeMs && now - (row.sent_at ?? row.read_at) > maxAgeMs) return true;
+    if (maxReadsSince && row.sent_seq != null && seq - row.sent_seq - 1 > maxReadsSince) return true;
+    return false;
+  }
+
+  /**
+   * Count a read's outcome, the bytes it returned against the file's size on
+   * disk, and the path's read and change history, and log it as an event.
+   */
+  private async countRead(
+    filePath: string,
+    forced: boolean,
+    options: ReadOptions | undefined,
+    read: () => Promise<FileReadResult>,
+  ): Promise<FileReadResult> {
+    await this.init();
+    const { statSync } = await import("fs");
+    const { resolve } = await import("path");
+    const absPath = resolve(filePath);
+    const lastRead = await this.getDb().prepare(
+      "SELECT hash FROM session_reads WHERE session_id = ? AND path = ?"
+    ).all(this.sessionId, absPath);
+    const event = {
+      path: absPath,
+      offset: options?.offset || undefined,
+      limit: options?.limit || undefined,
+      oldHash: lastRead.length > 0 ? (lastRead[0] as any).hash as string : undefined,
+    };
+
+    let result: FileReadResult;
+    try {
+      result = await read();
+    } catch (e: any) {
+      await this.bumpStats({ "reads:errors": 1 });
+      await this.logReadEvent({ ...event, kind: "error", tokensReturned: 0, tokensSaved: 0, error: e.message });
+      throw e;
+    }
+
+    const outcome: ReadEventKind = forced ? "forced"
+      : !result.cached ? "full"
+      : result.diff !== undefined ? "diff"
+      // Unchanged lines of a changed file are only a partial hit
+      : result.linesChanged === 0 && result.hash === event.oldHash ? "unchanged"
+      : "partial";
+    await this.logReadEvent({
+      ...event,
+      newHash: result.hash || undefined,
+      kind: outcome,
+      tokensReturned: this.countTokens(result.content),
+      tokensSaved: result.tokensSaved ?? 0,
+    });
+    await this.bumpStats({
+      [`reads:${outcome}`]: 1,
+      "bytes:returned": Buffer.byteLength(result.content),
+      "bytes:on_disk": statSync(absPath).size,
+    });
+    await this.getDb().prepare(
+      `INSERT INTO file_stats (path, reads, hits, changes, last_hash, last_read_at) VALUES (?, 1, ?, 0, ?, ?)
+       ON CONFLICT(path) DO UPDATE SET reads = reads + 1, hits = hits + excluded.hits,
+         changes = changes + (CASE WHEN last_hash = excluded.last_hash THEN 0 ELSE 1 END),
+         last_hash = excluded.last_hash, last_read_at = excluded.last_read_at`
+    ).run(absPath, result.cached ? 1 : 0, result.hash, Date.now());
+    return result;
+  }
+
+  /** Drop events up to `lastDropped` from the JSONL log too. */
+  private async trimEventLog(lastDropped: number): Promise<void> {
+    if (!this.eventLog) return;
+    const { existsSync, readFileSync, writeFileSync } = await import("fs");
+    if (!existsSync(this.eventLog)) return;
+    const kept = readFileSync(this.eventLog, "utf-8").split("\n").filter((line) => {
+      if (!line) return false;
+      try {
+        return JSON.parse(line).id > lastDropped;
+      } catch {
+        return false;
+      }
+    });
+    writeFileSync(this.eventLog, kept.map((line) => line + "\n").join(""));
+  }
+
+  private async logReadEvent(event: Omit<ReadEvent, "id" | "sessionId" | "timestamp">): Promise<void> {
+    const timestamp = Date.now();
+    const rows = await this.getDb().prepare(
+      `INSERT INTO read_events (session_id, path, line_offset, line_limit, old_hash, new_hash, kind, tokens_returned, tokens_saved, error, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+    ).all(
+      this.sessionId, event.path, event.offset ?? null, event.limit ?? null, event.oldHash ?? null, event.newHash ?? null,
+      event.kind, event.tokensReturned, event.tokensSaved, event.error ?? null, timestamp,
+    );
+    if (!this.eventLog) return;
+    const { appendFileSync } = await import("fs");
+    const logged: ReadEvent = { id: (rows[0] as any).id, sessionId: this.sessionId, ...event, timestamp };
+    try {
+      appendFileSync(this.eventLog, JSON.stringify(logged) + "\n");
+    } catch {
+      // The table is the record; a missing log line never fails a read
+    }
+  }
+
+  /** Add to counters, both overall and for this session. */
+  private async bumpStats(counters: Record<string, number>): Promise<void> {
+    const db = this.getDb();
+    for (const [key, n] of Object.entries(counters)) {
+      await db.prepare(
+        "INSERT INTO stats (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = value + ?"
+      ).run(key, n, n);
+      await db.prepare(
+        "INSERT INTO session_stats (session_id, key, value) VALUES (?, ?, ?) ON CONFLICT(session_id, key) DO UPDATE SET value = value + ?"
+      ).run(this.sessionId, key, n, n);
+    }
+  }
+
+  /** Savings are kept per tokenizer, so numbers from different ones never mix. */
+  private tokensSavedKey(): string {
+    return `tokens_saved:${this.tokenizer.name}`;
+  }
+
+  /** Count tokens with the configured tokenizer. Whole versions are memoized by hash. */
+  countTokens(text: string, hash?: string): number {
+    if (hash === undefined) return this.tokenizer.count(text);
+    let n = this.tokenCounts.get(hash);
+    if (n === undefined) {
+      n = this.tokenizer.count(text);
+      if (this.tokenCounts.size >= 1_000) this.tokenCounts.clear();
+      this.tokenCounts.set(hash, n);
+    }
+    return n;
+  }
+
+  private async addTokensSaved(tokens: number): Promise<void> {
+    await this.bumpStats({ [this.tokensSavedKey()]: tokens });
   }
 }
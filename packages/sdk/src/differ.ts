@@ -1,6 +1,8 @@
 /**
  * Minimal unified diff implementation.
  * Computes a line-based diff between two strings and returns a compact representation.
+ * Uses Myers' O(ND) algorithm in its linear-space (middle snake) form, so memory
+ * stays proportional to the input size even for very large files.
  */
 
 export interface DiffResult {
@@ -8,150 +10,304 @@ export interface DiffResult {
   diff: string;
   /** Number of lines changed (added + removed) */
   linesChanged: number;
+  /** Lines only in the new file */
+  linesAdded: number;
+  /** Lines only in the old file */
+  linesRemoved: number;
   /** Whether there are any changes */
   hasChanges: boolean;
   /** Line numbers in the NEW file that were added or modified */
   changedNewLines: Set<number>;
+  /** For each line of the NEW file (indexed by line number), the OLD line it was kept from, or 0 if it is new */
+  oldLineOf: Int32Array;
+  /** The diff budget ran out before a diff was found; callers should send the full file */
+  budgetExceeded?: boolean;
 }
 
-export function computeDiff(oldContent: string, newContent: string, filePath: string): DiffResult {
+export interface DiffOptions {
+  /** Give up when the differing region spans more lines than this (old + new). 0 disables. Default: 200000 */
+  maxLines?: number;
+  /** Give up after this many milliseconds. 0 disables. Default: 1000 */
+  timeoutMs?: number;
+  /** Unchanged lines shown around each change. Default: 3 */
+  context?: number;
+}
+
+export const DEFAULT_DIFF_OPTIONS: Required<DiffOptions> = {
+  maxLines: 200_000,
+  timeoutMs: 1000,
+  context: 3,
+};
+
+const KEEP = 0;
+const ADD = 1;
+const REMOVE = 2;
+
+class DiffBudgetExceeded extends Error {}
+
+/**
+ * `range` limits the returned diff to hunks with changes inside those lines
+ * of the new file (1-based, inclusive). The other fields describe the whole file.
+ */
+export function computeDiff(oldContent: string, newContent: string, filePath: string, options?: DiffOptions, range?: [number, number]): DiffResult {
+  const budget = { ...DEFAULT_DIFF_OPTIONS, ...options };
   const oldLines = oldContent.split("\n");
   const newLines = newContent.split("\n");
 
-  // LCS-based diff
-  const lcs = longestCommonSubsequence(oldLines, newLines);
-
-  const hunks: string[] = [];
-  let oldIdx = 0;
-  let newIdx = 0;
-  let lcsIdx = 0;
-  let linesChanged = 0;
-
-  // Collect raw diff lines
-  const rawLines: Array<{ type: "keep" | "add" | "remove"; line: string; oldLine: number; newLine: number }> = [];
-
-  while (oldIdx < oldLines.length || newIdx < newLines.length) {
-    if (lcsIdx < lcs.length && oldIdx < oldLines.length && oldLines[oldIdx] === lcs[lcsIdx] &&
-        newIdx < newLines.length && newLines[newIdx] === lcs[lcsIdx]) {
-      rawLines.push({ type: "keep", line: oldLines[oldIdx], oldLine: oldIdx + 1, newLine: newIdx + 1 });
-      oldIdx++;
-      newIdx++;
-      lcsIdx++;
-    } else if (newIdx < newLines.length && (lcsIdx >= lcs.length || newLines[newIdx] !== lcs[lcsIdx])) {
-      rawLines.push({ type: "add", line: newLines[newIdx], oldLine: oldIdx + 1, newLine: newIdx + 1 });
-      newIdx++;
-      linesChanged++;
-    } else if (oldIdx < oldLines.length && (lcsIdx >= lcs.length || oldLines[oldIdx] !== lcs[lcsIdx])) {
-      rawLines.push({ type: "remove", line: oldLines[oldIdx], oldLine: oldIdx + 1, newLine: newIdx + 1 });
-      oldIdx++;
-      linesChanged++;
+  let ops: number[];
+  try {
+    ops = diffLines(oldLines, newLines, budget);
+  } catch (e) {
+    if (e instanceof DiffBudgetExceeded) {
+      return { diff: "", linesChanged: 0, linesAdded: 0, linesRemoved: 0, hasChanges: true, changedNewLines: new Set(), oldLineOf: new Int32Array(0), budgetExceeded: true };
     }
+    throw e;
   }
 
   // Collect which lines in the new file were changed
   const changedNewLines = new Set<number>();
-  for (const rl of rawLines) {
-    if (rl.type === "add") changedNewLines.add(rl.newLine);
-    // For removals, mark the adjacent new line as affected
-    if (rl.type === "remove") changedNewLines.add(rl.newLine);
-  }
-
-  if (linesChanged === 0) {
-    return { diff: "", linesChanged: 0, hasChanges: false, changedNewLines };
-  }
-
-  // Group into hunks with 3 lines of context
-  const CONTEXT = 3;
-  const hunkGroups: typeof rawLines[] = [];
-  let currentHunk: typeof rawLines = [];
-  let lastChangeIdx = -999;
-
-  for (let i = 0; i < rawLines.length; i++) {
-    const line = rawLines[i];
-    if (line.type !== "keep") {
-      // If this change is far from the last, start a new hunk
-      if (i - lastChangeIdx > CONTEXT * 2 + 1 && currentHunk.length > 0) {
-        hunkGroups.push(currentHunk);
-        currentHunk = [];
-        // Add leading context
-        for (let c = Math.max(0, i - CONTEXT); c < i; c++) {
-          currentHunk.push(rawLines[c]);
-        }
-      } else if (currentHunk.length === 0) {
-        // First hunk, add leading context
-        for (let c = Math.max(0, i - CONTEXT); c < i; c++) {
-          currentHunk.push(rawLines[c]);
-        }
-      }
-      // Add all lines between last change context end and this change
-      const contextEnd = lastChangeIdx + CONTEXT + 1;
-      for (let c = Math.max(contextEnd, currentHunk.length > 0 ? i : 0); c < i; c++) {
-        if (!currentHunk.includes(rawLines[c])) {
-          currentHunk.push(rawLines[c]);
-        }
-      }
-      currentHunk.push(line);
-      lastChangeIdx = i;
-    } else if (i - lastChangeIdx <= CONTEXT && currentHunk.length > 0) {
-      currentHunk.push(line);
+  const oldLineOf = new Int32Array(newLines.length + 1);
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  let newLine = 1;
+  let oldLine = 1;
+  for (const op of ops) {
+    if (op === KEEP) {
+      oldLineOf[newLine] = oldLine;
+      newLine++;
+      oldLine++;
+    } else if (op === ADD) {
+      changedNewLines.add(newLine);
+      newLine++;
+      linesAdded++;
+    } else {
+      // For removals, mark the adjacent new line as affected
+      changedNewLines.add(newLine);
+      oldLine++;
+      linesRemoved++;
     }
   }
-  if (currentHunk.length > 0) {
-    hunkGroups.push(currentHunk);
-  }
 
-  // Format hunks
-  for (const hunk of hunkGroups) {
-    if (hunk.length === 0) continue;
-    const firstLine = hunk[0];
-    const lastLine = hunk[hunk.length - 1];
-    hunks.push(`@@ -${firstLine.oldLine},${lastLine.oldLine - firstLine.oldLine + 1} +${firstLine.newLine},${lastLine.newLine - firstLine.newLine + 1} @@`);
-    for (const line of hunk) {
-      const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
-      hunks.push(`${prefix}${line.line}`);
-    }
+  const linesChanged = linesAdded + linesRemoved;
+  if (linesChanged === 0) {
+    return { diff: "", linesChanged: 0, linesAdded: 0, linesRemoved: 0, hasChanges: false, changedNewLines, oldLineOf };
   }
 
   const header = `--- a/${filePath}\n+++ b/${filePath}`;
   return {
-    diff: `${header}\n${hunks.join("\n")}`,
+    diff: `${header}\n${formatHunks(ops, oldLines, newLines, budget.context, range).join("\n")}`,
     linesChanged,
+    linesAdded,
+    linesRemoved,
     hasChanges: true,
     changedNewLines,
+    oldLineOf,
   };
 }
 
-function longestCommonSubsequence(a: string[], b: string[]): string[] {
-  const m = a.length;
-  const n = b.length;
+/** Group the edit script into hunks with `context` lines around changes and format them. */
+function formatHunks(ops: number[], oldLines: string[], newLines: string[], context: number, range?: [number, number]): string[] {
+  const out: string[] = [];
+
+  // Old/new line counts consumed before each op, so any op can start a hunk
+  const oldBefore = new Int32Array(ops.length + 1);
+  const newBefore = new Int32Array(ops.length + 1);
+  for (let i = 0; i < ops.length; i++) {
+    oldBefore[i + 1] = oldBefore[i] + (ops[i] === ADD ? 0 : 1);
+    newBefore[i + 1] = newBefore[i] + (ops[i] === REMOVE ? 0 : 1);
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i] === KEEP) {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within 2*context kept lines
+    let lastChange = i;
+    let j = i + 1;
+    while (j < ops.length && j - lastChange <= context * 2 + 1) {
+      if (ops[j] !== KEEP) lastChange = j;
+      j++;
+    }
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+
+    // Changed new lines in this hunk span newBefore[i]+1 .. newBefore[lastChange]+1
+    if (range && (newBefore[i] + 1 > range[1] || newBefore[lastChange] + 1 < range[0])) {
+      i = end;
+      continue;
+    }
+
+    const oldCount = oldBefore[end] - oldBefore[start];
+    const newCount = newBefore[end] - newBefore[start];
+    const oldStart = oldCount > 0 ? oldBefore[start] + 1 : oldBefore[start];
+    const newStart = newCount > 0 ? newBefore[start] + 1 : newBefore[start];
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    for (let k = start; k < end; k++) {
+      if (ops[k] === KEEP) out.push(` ${oldLines[oldBefore[k]]}`);
+      else if (ops[k] === ADD) out.push(`+${newLines[newBefore[k]]}`);
+      else out.push(`-${oldLines[oldBefore[k]]}`);
+    }
+
+    i = end;
+  }
 
-  // Optimize for large files: use Map-based approach for sparse LCS
-  const dp: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  return out;
+}
 
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+/** Compute an edit script (KEEP/ADD/REMOVE per line) turning `a` into `b`. */
+function diffLines(a: string[], b: string[], budget: Required<DiffOptions>): number[] {
+  // Intern lines so the inner loops compare integers instead of strings
+  const ids = new Map<string, number>();
+  const intern = (lines: string[]) => {
+    const out = new Int32Array(lines.length);
+    for (let i = 0; i < lines.length; i++) {
+      let id = ids.get(lines[i]);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(lines[i], id);
       }
+      out[i] = id;
     }
+    return out;
+  };
+  const ai = intern(a);
+  const bi = intern(b);
+
+  let prefix = 0;
+  while (prefix < ai.length && prefix < bi.length && ai[prefix] === bi[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < ai.length - prefix && suffix < bi.length - prefix &&
+         ai[ai.length - 1 - suffix] === bi[bi.length - 1 - suffix]) suffix++;
+
+  const middle = ai.length + bi.length - 2 * (prefix + suffix);
+  if (budget.maxLines > 0 && middle > budget.maxLines) throw new DiffBudgetExceeded();
+
+  const deadline = budget.timeoutMs > 0 ? Date.now() + budget.timeoutMs : 0;
+  const ops: number[] = new Array(prefix).fill(KEEP);
+  diffRange(ai, prefix, ai.length - suffix, bi, prefix, bi.length - suffix, deadline, ops);
+  for (let i = 0; i < suffix; i++) ops.push(KEEP);
+  return ops;
+}
+
+function diffRange(
+  a: Int32Array, aLo: number, aHi: number,
+  b: Int32Array, bLo: number, bHi: number,
+  deadline: number, ops: number[],
+): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push(KEEP);
+    aLo++;
+    bLo++;
+  }
+  let suffix = 0;
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    aHi--;
+    bHi--;
+    suffix++;
   }
 
-  // Backtrack to find the LCS
-  const result: string[] = [];
-  let i = m, j = n;
-  while (i > 0 && j > 0) {
-    if (a[i - 1] === b[j - 1]) {
-      result.unshift(a[i - 1]);
-      i--;
-      j--;
-    } else if (dp[i - 1][j] > dp[i][j - 1]) {
-      i--;
+  if (aLo === aHi) {
+    for (let j = bLo; j < bHi; j++) ops.push(ADD);
+  } else if (bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) ops.push(REMOVE);
+  } else {
+    const split = middleSnake(a, aLo, aHi, b, bLo, bHi, deadline);
+    if (split) {
+      diffRange(a, aLo, aLo + split[0], b, bLo, bLo + split[1], deadline, ops);
+      diffRange(a, aLo + split[0], aHi, b, bLo + split[1], bHi, deadline, ops);
     } else {
-      j--;
+      // Nothing in common
+      for (let i = aLo; i < aHi; i++) ops.push(REMOVE);
+      for (let j = bLo; j < bHi; j++) ops.push(ADD);
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) ops.push(KEEP);
+}
+
+/**
+ * Find the point where the forward and reverse D-paths of Myers' algorithm
+ * overlap. Returns offsets into the range to split at, or null if the ranges
+ * share nothing. Uses O(N + M) memory.
+ */
+function middleSnake(
+  a: Int32Array, aLo: number, aHi: number,
+  b: Int32Array, bLo: number, bHi: number,
+  deadline: number,
+): [number, number] | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const vOffset = maxD;
+  const vLength = 2 * maxD;
+  const v1 = new Int32Array(vLength).fill(-1);
+  const v2 = new Int32Array(vLength).fill(-1);
+  v1[vOffset + 1] = 0;
+  v2[vOffset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a reverse step
+  const front = delta % 2 !== 0;
+  let k1Start = 0;
+  let k1End = 0;
+  let k2Start = 0;
+  let k2End = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    if (deadline > 0 && Date.now() > deadline) throw new DiffBudgetExceeded();
+
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = vOffset + k1;
+      let x1 = k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      if (x1 > n) {
+        k1End += 2;
+      } else if (y1 > m) {
+        k1Start += 2;
+      } else if (front) {
+        const k2Offset = vOffset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1) {
+          if (x1 >= n - v2[k2Offset]) return [x1, y1];
+        }
+      }
+    }
+
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = vOffset + k2;
+      let x2 = k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && a[aHi - 1 - x2] === b[bHi - 1 - y2]) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      if (x2 > n) {
+        k2End += 2;
+      } else if (y2 > m) {
+        k2Start += 2;
+      } else if (!front) {
+        const k1Offset = vOffset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = x1 - (k1Offset - vOffset);
+          if (x1 >= n - x2) return [x1, y1];
+        }
+      }
     }
   }
 
-  return result;
+  return null;
 }
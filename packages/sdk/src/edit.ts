@@ -0,0 +1,43 @@
+/**
+ * Exact search-and-replace edits, applied in order and all-or-nothing.
+ */
+
+export interface FileEdit {
+  /** Exact text to replace. Must occur once unless replaceAll is set. */
+  oldString: string;
+  newString: string;
+  /** Replace every occurrence */
+  replaceAll?: boolean;
+}
+
+export function applyEdits(content: string, edits: FileEdit[], label: string): { text: string; replacements: number } {
+  if (edits.length === 0) throw new Error("No edits given");
+  // Agents send "\n"; match CRLF files anyway and keep their line endings
+  const crlf = content.includes("\r\n");
+  const toFile = (s: string) => (crlf && !s.includes("\r\n") ? s.replace(/\n/g, "\r\n") : s);
+
+  let text = content;
+  let replacements = 0;
+  edits.forEach((edit, i) => {
+    const which = edits.length > 1 ? `Edit ${i + 1}: ` : "";
+    if (edit.oldString === "") throw new Error(`${which}oldString is empty`);
+    if (edit.oldString === edit.newString) throw new Error(`${which}oldString and newString are identical`);
+
+    let oldString = edit.oldString;
+    let newString = edit.newString;
+    if (!text.includes(oldString) && text.includes(toFile(oldString))) {
+      oldString = toFile(oldString);
+      newString = toFile(newString);
+    }
+
+    const count = text.split(oldString).length - 1;
+    if (count === 0) throw new Error(`${which}oldString not found in ${label}`);
+    if (count > 1 && !edit.replaceAll) {
+      throw new Error(`${which}oldString occurs ${count} times in ${label}. Include more surrounding context to make it unique, or set replaceAll.`);
+    }
+    text = edit.replaceAll ? text.split(oldString).join(newString) : text.replace(oldString, () => newString);
+    replacements += edit.replaceAll ? count : 1;
+  });
+
+  return { text, replacements };
+}
@@ -0,0 +1,137 @@
+/**
+ * Decoding of file bytes into text.
+ * Recognizes binary content (magic numbers, NUL bytes), byte order marks,
+ * BOM-less UTF-16 and invalid UTF-8, so that everything downstream (hashing,
+ * storage, diffing) works on correctly decoded text.
+ */
+
+export type DecodedFile =
+  | { kind: "text"; text: string; encoding: string }
+  | { kind: "binary"; type: string };
+
+/** Bytes inspected when sniffing for binary content */
+const SNIFF_BYTES = 8192;
+
+const MAGIC: Array<{ type: string; bytes: number[]; offset?: number }> = [
+  { type: "PNG image", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: "JPEG image", bytes: [0xff, 0xd8, 0xff] },
+  { type: "GIF image", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: "WebP image", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { type: "ICO image", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { type: "PDF document", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: "ZIP archive", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: "gzip archive", bytes: [0x1f, 0x8b] },
+  { type: "WebAssembly module", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { type: "ELF executable", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { type: "Mach-O executable", bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { type: "SQLite database", bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66] },
+  { type: "WOFF font", bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { type: "WOFF2 font", bytes: [0x77, 0x4f, 0x46, 0x32] },
+];
+
+function startsWith(buf: Uint8Array, bytes: number[], offset = 0): boolean {
+  if (buf.length < offset + bytes.length) return false;
+  return bytes.every((b, i) => buf[offset + i] === b);
+}
+
+export function decodeFile(buf: Uint8Array): DecodedFile {
+  // Byte order marks are authoritative
+  if (startsWith(buf, [0xef, 0xbb, 0xbf])) {
+    return { kind: "text", text: new TextDecoder("utf-8").decode(buf.subarray(3)), encoding: "utf-8-bom" };
+  }
+  if (startsWith(buf, [0xff, 0xfe])) {
+    return { kind: "text", text: new TextDecoder("utf-16le").decode(buf.subarray(2)), encoding: "utf-16le-bom" };
+  }
+  if (startsWith(buf, [0xfe, 0xff])) {
+    return { kind: "text", text: new TextDecoder("utf-16be").decode(buf.subarray(2)), encoding: "utf-16be-bom" };
+  }
+
+  for (const m of MAGIC) {
+    if (startsWith(buf, m.bytes, m.offset)) return { kind: "binary", type: m.type };
+  }
+
+  const sample = buf.subarray(0, SNIFF_BYTES);
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    return { kind: "text", text: new TextDecoder(utf16).decode(buf), encoding: utf16 };
+  }
+
+  if (sample.includes(0) || controlRatio(sample) > 0.3) {
+    return { kind: "binary", type: "binary data" };
+  }
+
+  try {
+    return { kind: "text", text: new TextDecoder("utf-8", { fatal: true }).decode(buf), encoding: "utf-8" };
+  } catch {
+    // Not valid UTF-8: legacy single-byte text, almost always Latin-1/Windows-1252
+    return { kind: "text", text: new TextDecoder("windows-1252").decode(buf), encoding: "windows-1252" };
+  }
+}
+
+/** BOM-less UTF-16 shows up as ASCII interleaved with NUL bytes on one side. */
+function detectUtf16(sample: Uint8Array): "utf-16le" | "utf-16be" | null {
+  if (sample.length < 4) return null;
+  let evenNuls = 0;
+  let oddNuls = 0;
+  const pairs = Math.floor(sample.length / 2);
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenNuls++;
+    if (sample[i + 1] === 0) oddNuls++;
+  }
+  if (oddNuls > pairs * 0.7 && evenNuls < pairs * 0.05) return "utf-16le";
+  if (evenNuls > pairs * 0.7 && oddNuls < pairs * 0.05) return "utf-16be";
+  return null;
+}
+
+/** Fraction of bytes that are control characters never found in text files. */
+function controlRatio(sample: Uint8Array): number {
+  if (sample.length === 0) return 0;
+  let control = 0;
+  for (const b of sample) {
+    // Allow \b \t \n \f \r and ESC (ANSI color codes in logs)
+    if (b < 0x20 && b !== 0x08 && b !== 0x09 && b !== 0x0a && b !== 0x0c && b !== 0x0d && b !== 0x1b) control++;
+  }
+  return control / sample.length;
+}
+
+/** Windows-1252 code points in 0x80-0x9F that differ from Latin-1. */
+const CP1252_SPECIALS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+/** Bytes 0x81, 0x8D, 0x8F, 0x90 and 0x9D have no character; they decode to the same code point */
+const CP1252_SPECIAL_BYTES = new Set(Object.values(CP1252_SPECIALS));
+
+/** Encode text back into the encoding decodeFile reported for the original bytes. */
+export function encodeFile(text: string, encoding: string): Buffer {
+  switch (encoding) {
+    case "utf-8-bom":
+      return Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, "utf-8")]);
+    case "utf-16le":
+      return Buffer.from(text, "utf16le");
+    case "utf-16le-bom":
+      return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]);
+    case "utf-16be":
+      return Buffer.from(text, "utf16le").swap16();
+    case "utf-16be-bom":
+      return Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(text, "utf16le").swap16()]);
+    case "windows-1252": {
+      const out = Buffer.alloc(text.length);
+      for (let i = 0; i < text.length; i++) {
+        const c = text.charCodeAt(i);
+        const passthrough = c < 0x80 || (c >= 0xa0 && c <= 0xff) || (c <= 0x9f && !CP1252_SPECIAL_BYTES.has(c));
+        const b = passthrough ? c : CP1252_SPECIALS[c];
+        if (b === undefined) {
+          throw new Error(`Character U+${c.toString(16).toUpperCase().padStart(4, "0")} cannot be written to a windows-1252 file`);
+        }
+        out[i] = b;
+      }
+      return out;
+    }
+    default:
+      return Buffer.from(text, "utf-8");
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Garbage collection planning for the cache database.
+ * Works on a metadata snapshot (no file contents) and decides which sessions
+ * expire and which file versions can be dropped. CacheStore applies the plan.
+ * Blobs are shared between paths, so bytes are counted once per content hash.
+ */
+
+import type { RetentionPolicy } from "./types.js";
+
+export const DEFAULT_RETENTION: Required<RetentionPolicy> = {
+  keepVersionsPerPath: 1,
+  sessionTtlMs: 7 * 24 * 60 * 60 * 1000,
+  maxDbBytes: 0,
+  maxReadEvents: 10_000,
+};
+
+export interface GcVersion {
+  path: string;
+  hash: string;
+  bytes: number;
+  createdAt: number;
+}
+
+export interface GcRead {
+  sessionId: string;
+  path: string;
+  hash: string;
+  readAt: number;
+}
+
+export interface GcPlan {
+  /** Sessions whose read state will be dropped */
+  expiredSessions: string[];
+  /** Versions no longer referenced or retained */
+  removedVersions: GcVersion[];
+  /** Stored bytes before collection */
+  bytesBefore: number;
+  /** Stored bytes after collection */
+  bytesAfter: number;
+}
+
+export function planGc(
+  versions: GcVersion[],
+  reads: GcRead[],
+  policy: Required<RetentionPolicy>,
+  now: number,
+  protectedSession: string,
+  activity: Map<string, number> = new Map(),
+): GcPlan {
+  // Sessions are active through any tracked operation, not just file reads
+  const lastActivity = new Map(activity);
+  for (const r of reads) {
+    lastActivity.set(r.sessionId, Math.max(lastActivity.get(r.sessionId) ?? 0, r.readAt));
+  }
+
+  const expired = new Set<string>();
+  if (policy.sessionTtlMs > 0) {
+    for (const [sessionId, last] of lastActivity) {
+      if (sessionId !== protectedSession && last < now - policy.sessionTtlMs) {
+        expired.add(sessionId);
+      }
+    }
+  }
+
+  const bytesBefore = distinctBytes(versions);
+
+  let keepRecent = policy.keepVersionsPerPath;
+  let result = selectVersions(versions, reads, expired, keepRecent);
+
+  if (policy.maxDbBytes > 0 && result.bytesKept > policy.maxDbBytes) {
+    // Over budget: stop keeping unreferenced history, then evict whole
+    // sessions, least recently active first, until we fit.
+    keepRecent = 0;
+    result = selectVersions(versions, reads, expired, keepRecent);
+
+    const candidates = [...lastActivity.entries()]
+      .filter(([sessionId]) => sessionId !== protectedSession && !expired.has(sessionId))
+      .sort((a, b) => a[1] - b[1]);
+
+    for (const [sessionId] of candidates) {
+      if (result.bytesKept <= policy.maxDbBytes) break;
+      expired.add(sessionId);
+      result = selectVersions(versions, reads, expired, keepRecent);
+    }
+  }
+
+  return {
+    expiredSessions: [...expired],
+    removedVersions: result.removed,
+    bytesBefore,
+    bytesAfter: result.bytesKept,
+  };
+}
+
+function selectVersions(
+  versions: GcVersion[],
+  reads: GcRead[],
+  expired: Set<string>,
+  keepRecent: number,
+): { removed: GcVersion[]; bytesKept: number } {
+  const referenced = new Set<string>();
+  for (const r of reads) {
+    if (!expired.has(r.sessionId)) referenced.add(`${r.path}\0${r.hash}`);
+  }
+
+  const byPath = new Map<string, GcVersion[]>();
+  for (const v of versions) {
+    const list = byPath.get(v.path);
+    if (list) list.push(v);
+    else byPath.set(v.path, [v]);
+  }
+
+  const removed: GcVersion[] = [];
+  const kept: GcVersion[] = [];
+  for (const list of byPath.values()) {
+    list.sort((a, b) => b.createdAt - a.createdAt);
+    list.forEach((v, i) => {
+      if (i < keepRecent || referenced.has(`${v.path}\0${v.hash}`)) {
+        kept.push(v);
+      } else {
+        removed.push(v);
+      }
+    });
+  }
+
+  return { removed, bytesKept: distinctBytes(kept) };
+}
+
+function distinctBytes(versions: GcVersion[]): number {
+  const sizes = new Map<string, number>();
+  for (const v of versions) sizes.set(v.hash, v.bytes);
+  let total = 0;
+  for (const bytes of sizes.values()) total += bytes;
+  return total;
+}
@@ -0,0 +1,81 @@
+/**
+ * Minimal glob matching for relative, "/"-separated paths.
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`. A pattern without a "/"
+ * matches the basename at any depth, so `*.ts` finds every TypeScript file.
+ */
+
+import { relative, resolve, sep } from "path";
+
+export function globToRegExp(pattern: string): RegExp {
+  const anchored = pattern.includes("/");
+  let glob = pattern.replace(/^\.\//, "").replace(/^\//, "");
+  if (!anchored) glob = `**/${glob}`;
+
+  let re = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const close = glob.indexOf("]", i + 1);
+      if (close < 0) {
+        re += "\\[";
+      } else {
+        const body = glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        re += `[${body}]`;
+        i = close;
+      }
+    } else if (c === "{") {
+      braces++;
+      re += "(?:";
+    } else if (c === "}" && braces > 0) {
+      braces--;
+      re += ")";
+    } else if (c === "," && braces > 0) {
+      re += "|";
+    } else {
+      re += c.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${re}$`);
+}
+
+export function matchesGlob(path: string, pattern: string | RegExp): boolean {
+  const re = typeof pattern === "string" ? globToRegExp(pattern) : pattern;
+  return re.test(path);
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Match absolute paths against patterns: a glob is matched against the path
+ * relative to `cwd`, anything else names a file or a directory to match under.
+ */
+export function pathMatcher(patterns: string[], cwd: string = process.cwd()): (path: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    if (isGlob(pattern)) {
+      const re = globToRegExp(pattern);
+      return (path: string) => re.test(relative(cwd, path).split(sep).join("/"));
+    }
+    const abs = resolve(cwd, pattern);
+    return (path: string) => path === abs || path.startsWith(abs.endsWith(sep) ? abs : abs + sep);
+  });
+  return (path) => matchers.some((m) => m(path));
+}
@@ -0,0 +1,149 @@
+/**
+ * .gitignore-style ignore rules. Any directory under a root may hold ignore
+ * files; their patterns apply to that directory and below, with later and
+ * deeper rules winning and "!" re-including. As in git, nothing inside an
+ * ignored directory can be re-included. Parsed rules are kept per
+ * directory: under watched directories until the watcher reports a change to
+ * an ignore file, elsewhere until the file's size or mtime changes.
+ */
+
+import { readFileSync, statSync } from "fs";
+import { basename, dirname, join, parse, relative, resolve, sep } from "path";
+import { globToRegExp } from "./glob.js";
+
+/** Read in every directory, in this order: a .cachebroignore can override .gitignore */
+export const DEFAULT_IGNORE_FILES: readonly string[] = [".gitignore", ".cachebroignore"];
+
+/** Never worth watching, listing or searching, whatever the ignore files say */
+const BUILTIN_PATTERNS = [".git/", ".cachebro/"];
+
+interface Rule {
+  pattern: string;
+  source: string;
+  /** Directory the rule is relative to, "/"-separated from the root; "" for the root */
+  base: string;
+  re: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export interface IgnoreMatch {
+  /** The pattern as written */
+  pattern: string;
+  /** The ignore file it came from, "config" or "cachebro" */
+  source: string;
+}
+
+export interface Ignore {
+  /**
+   * The rule that excludes a path, if any. Paths outside every root only
+   * meet the built-in rules. `isDir` is looked up when not given.
+   */
+  match(path: string, isDir?: boolean): IgnoreMatch | undefined;
+  /** Forget the rules read from `path` if it is an ignore file, so the next match reads it again. */
+  invalidate(path: string): void;
+}
+
+export function compileIgnore(
+  roots: string[],
+  options: { files: readonly string[]; patterns: readonly string[]; watched?: readonly string[] },
+): Ignore {
+  const absRoots = roots.map((r) => resolve(r)).sort((a, b) => b.length - a.length);
+  const absWatched = (options.watched ?? []).map((w) => resolve(w));
+  const fixed = [...parseIgnore(BUILTIN_PATTERNS.join("\n"), "cachebro", ""), ...parseIgnore(options.patterns.join("\n"), "config", "")];
+  const loaded = new Map<string, { stamp: string; watched: boolean; rules: Rule[] }>();
+
+  const rulesIn = (dir: string, base: string): Rule[] => {
+    if (options.files.length === 0) return [];
+    const cached = loaded.get(dir);
+    if (cached?.watched) return cached.rules;
+    const stats = options.files.map((name) => {
+      try {
+        const s = statSync(join(dir, name));
+        return `${s.mtimeMs}:${s.size}`;
+      } catch {
+        return "-";
+      }
+    });
+    const stamp = stats.join("|");
+    if (cached?.stamp === stamp) return cached.rules;
+    const rules = options.files.flatMap((name, i) => {
+      if (stats[i] === "-") return [];
+      const file = join(dir, name);
+      try {
+        return parseIgnore(readFileSync(file, "utf-8"), file, base);
+      } catch {
+        return [];
+      }
+    });
+    const watched = absWatched.some((w) => dir === w || dir.startsWith(w.endsWith(sep) ? w : w + sep));
+    loaded.set(dir, { stamp, watched, rules });
+    return rules;
+  };
+
+  return {
+    match(path, isDir) {
+      const abs = resolve(path);
+      if (absRoots.includes(abs)) return undefined;
+      const root = absRoots.find((r) => abs.startsWith(r.endsWith(sep) ? r : r + sep));
+      let dir = root ?? parse(abs).root;
+      const parts = relative(dir, abs).split(sep);
+      const rules = [...fixed];
+      // Walk down from the root: an ignored directory hides everything in it
+      for (let i = 0; i < parts.length; i++) {
+        if (root) rules.push(...rulesIn(dir, parts.slice(0, i).join("/")));
+        const last = i === parts.length - 1;
+        const hit = decide(rules, parts.slice(0, i + 1).join("/"), last ? isDir ?? isDirectory(abs) : true);
+        if (hit) return hit;
+        dir = join(dir, parts[i]);
+      }
+      return undefined;
+    },
+    invalidate(path) {
+      const abs = resolve(path);
+      if (options.files.includes(basename(abs))) loaded.delete(dirname(abs));
+    },
+  };
+}
+
+/** Parse the lines of an ignore file whose directory is `base` under the root. */
+function parseIgnore(text: string, source: string, base: string): Rule[] {
+  const rules: Rule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\) +$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    else if (line.startsWith("\\!") || line.startsWith("\\#")) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+    // globToRegExp anchors a pattern with a slash to the file's directory, as git does
+    rules.push({ pattern: raw.trim(), source, base, re: globToRegExp(line), negate, dirOnly });
+  }
+  return rules;
+}
+
+/** The last rule matching `rel` decides; a negation means not ignored. */
+function decide(rules: Rule[], rel: string, isDir: boolean): IgnoreMatch | undefined {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule.dirOnly && !isDir) continue;
+    let sub = rel;
+    if (rule.base) {
+      if (!rel.startsWith(rule.base + "/")) continue;
+      sub = rel.slice(rule.base.length + 1);
+    }
+    if (!rule.re.test(sub)) continue;
+    return rule.negate ? undefined : { pattern: rule.pattern, source: rule.source };
+  }
+  return undefined;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,22 @@
 export { CacheStore } from "./cache.js";
+export { createTokenizer, estimateTokens, DEFAULT_TOKENIZER, TOKENIZER_PRESETS } from "./tokenizer.js";
+export type { Tokenizer, TokenizerPreset } from "./tokenizer.js";
 export { FileWatcher } from "./watcher.js";
 export { computeDiff } from "./differ.js";
-export type { CacheConfig, CacheStats, FileReadResult } from "./types.js";
+export { formatRanges } from "./ranges.js";
+export { pathMatcher } from "./glob.js";
+export { DEFAULT_SENSITIVE_PATTERNS } from "./access.js";
+export { DEFAULT_IGNORE_FILES } from "./ignore.js";
+export { DEFAULT_SELECTION_MARGIN } from "./select.js";
+export { parseTrace, replayTrace } from "./bench.js";
+export type { DiffOptions, DiffResult } from "./differ.js";
+export type { IgnoreMatch } from "./ignore.js";
+export type { ResponseForm } from "./select.js";
+export type { AccessPolicy, BenchResult, BenchTotals, CacheConfig, CacheStats, DirectoryListResult, FileReadResult, FileStats, FileWriteResult, GcOptions, GcResult, IgnorePolicy, ListOptions, OutlineReadResult, ReadCounters, ReadEvent, ReadEventKind, ReadEventQuery, ReadOptions, RetentionPolicy, SearchOptions, SearchResult, SessionDetail, SessionInfo, SessionManifest, SessionManifestEntry, RedactionPolicy, SelectionPolicy, StalenessPolicy, SymbolReadResult, TraceEntry } from "./types.js";
+export type { SymbolLocation } from "./symbols.js";
+export type { Outline, OutlineEntry } from "./outline.js";
+export type { FileEdit } from "./edit.js";
+export type { LineRange } from "./ranges.js";
 
 import { CacheStore } from "./cache.js";
 import { FileWatcher } from "./watcher.js";
@@ -12,7 +27,7 @@ import type { CacheConfig } from "./types.js";
  */
 export function createCache(config: CacheConfig): { cache: CacheStore; watcher: FileWatcher } {
   const cache = new CacheStore(config);
-  const watcher = new FileWatcher(cache);
+  const watcher = new FileWatcher(cache, config.watchDebounceMs);
 
   if (config.watchPaths && config.watchPaths.length > 0) {
     watcher.watch(config.watchPaths);
@@ -0,0 +1,136 @@
+/**
+ * Directory listings: a bounded recursive walk, plus the delta between two
+ * snapshots of the same directory (added, removed and renamed entries).
+ */
+
+import { lstatSync, readdirSync } from "fs";
+import { join } from "path";
+import { globToRegExp } from "./glob.js";
+
+export interface ListingEntry {
+  /** Path relative to the listed directory; directories end in "/" */
+  path: string;
+  /** Inode number, used to recognise renames (0 where unavailable) */
+  ino: number;
+}
+
+export interface Listing {
+  entries: ListingEntry[];
+  /** True if the walk stopped at maxEntries */
+  truncated: boolean;
+}
+
+export interface ListingDelta {
+  added: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+}
+
+export interface WalkOptions {
+  depth: number;
+  glob?: string;
+  maxEntries: number;
+  /** Entries to leave out, given their absolute path */
+  ignore?: (path: string, isDir: boolean) => boolean;
+}
+
+/** Directories that are shown but never descended into. */
+const OPAQUE_DIRS = new Set([".git", "node_modules", ".cachebro"]);
+
+export function walkDirectory(root: string, options: WalkOptions): Listing {
+  const filter = options.glob ? globToRegExp(options.glob) : null;
+  const entries: ListingEntry[] = [];
+  let truncated = false;
+
+  const walk = (dir: string, prefix: string, level: number) => {
+    let children;
+    try {
+      children = readdirSync(dir, { withFileTypes: true });
+    } catch (e) {
+      // Unreadable subdirectories are skipped; an unreadable root is an error
+      if (level === 1) throw e;
+      return;
+    }
+    children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const child of children) {
+      if (entries.length >= options.maxEntries) {
+        truncated = true;
+        return;
+      }
+      const rel = prefix + child.name;
+      const abs = join(dir, child.name);
+      const isDir = child.isDirectory();
+      if (options.ignore?.(abs, isDir)) continue;
+      // With a glob, directories are implied by the paths of matching files
+      if (!filter) entries.push({ path: isDir ? `${rel}/` : rel, ino: inodeOf(abs) });
+      else if (!isDir && filter.test(rel)) entries.push({ path: rel, ino: inodeOf(abs) });
+      if (isDir && level < options.depth && !OPAQUE_DIRS.has(child.name)) {
+        walk(abs, `${rel}/`, level + 1);
+      }
+    }
+  };
+  walk(root, "", 1);
+
+  return { entries, truncated };
+}
+
+function inodeOf(path: string): number {
+  try {
+    return lstatSync(path).ino;
+  } catch {
+    return 0;
+  }
+}
+
+export function formatListing(listing: Listing, label: string): string {
+  const lines = [`[cachebro: listing of ${label}, ${listing.entries.length} entries${listing.truncated ? ", truncated" : ""}]`];
+  for (const e of listing.entries) lines.push(e.path);
+  if (listing.truncated) {
+    lines.push("[cachebro: listing truncated. Narrow it with a smaller depth, a glob, or a subdirectory.]");
+  }
+  return lines.join("\n");
+}
+
+export function diffListings(before: Listing, after: Listing): ListingDelta {
+  const old = new Map(before.entries.map((e) => [e.path, e]));
+  const cur = new Map(after.entries.map((e) => [e.path, e]));
+
+  const added = after.entries.filter((e) => !old.has(e.path));
+  const removed = before.entries.filter((e) => !cur.has(e.path));
+
+  // A removed and an added entry sharing an inode is the same file, renamed
+  const removedByIno = new Map(removed.filter((e) => e.ino !== 0).map((e) => [e.ino, e]));
+  const renamed: ListingDelta["renamed"] = [];
+  const renamedFrom = new Set<string>();
+  const addedOnly: string[] = [];
+  for (const e of added) {
+    const from = e.ino !== 0 ? removedByIno.get(e.ino) : undefined;
+    if (from && !renamedFrom.has(from.path)) {
+      renamed.push({ from: from.path, to: e.path });
+      renamedFrom.add(from.path);
+    } else {
+      addedOnly.push(e.path);
+    }
+  }
+
+  // A renamed directory implies its contents moved with it
+  const dirRenames = renamed.filter((r) => r.from.endsWith("/"));
+  const implied = (r: { from: string; to: string }) => dirRenames.some((d) =>
+    d !== r && r.from.startsWith(d.from) && r.to === d.to + r.from.slice(d.from.length));
+
+  return {
+    added: addedOnly,
+    removed: removed.filter((e) => !renamedFrom.has(e.path)).map((e) => e.path),
+    renamed: renamed.filter((r) => !implied(r)),
+  };
+}
+
+export function formatListingDelta(delta: ListingDelta, after: Listing, label: string): string {
+  const lines = [
+    `[cachebro: listing of ${label} changed, ${delta.added.length} added, ${delta.removed.length} removed, ${delta.renamed.length} renamed, ${after.entries.length} entries]`,
+  ];
+  for (const p of delta.added) lines.push(`+ ${p}`);
+  for (const p of delta.removed) lines.push(`- ${p}`);
+  for (const { from, to } of delta.renamed) lines.push(`~ ${from} -> ${to}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,236 @@
+/**
+ * Structural outlines: imports, exports and declaration signatures with line
+ * numbers. TypeScript/JavaScript is parsed with the compiler; other languages
+ * fall back to a line-based heuristic.
+ */
+
+import type * as TS from "typescript";
+import { declarationsIn, isScriptFile, parseScript, type Declaration } from "./symbols.js";
+
+export interface OutlineEntry {
+  /** Dotted name, e.g. "AuthService.login" */
+  name: string;
+  kind: string;
+  /** Declaration head with bodies stripped and whitespace collapsed */
+  signature: string;
+  /** 1-based line of the declaration */
+  line: number;
+  /** Nesting depth: 0 for top-level */
+  depth: number;
+}
+
+export interface Outline {
+  /** Imported module specifiers */
+  imports: string[];
+  /** Exported names */
+  exports: string[];
+  entries: OutlineEntry[];
+}
+
+export interface OutlineDelta {
+  added: OutlineEntry[];
+  removed: OutlineEntry[];
+  changed: Array<{ before: OutlineEntry; after: OutlineEntry }>;
+  /** Entries whose signature is unchanged but which moved to another line */
+  moved: number;
+  importsAdded: string[];
+  importsRemoved: string[];
+}
+
+const MAX_SIGNATURE = 160;
+
+export async function buildOutline(content: string, filePath: string): Promise<Outline> {
+  if (isScriptFile(filePath)) return scriptOutline(content, filePath);
+  return heuristicOutline(content, /\.(md|markdown|mdx)$/i.test(filePath));
+}
+
+async function scriptOutline(content: string, filePath: string): Promise<Outline> {
+  const { ts, sf } = await parseScript(content, filePath);
+  const imports: string[] = [];
+  const exports: string[] = [];
+  const entries: OutlineEntry[] = [];
+
+  for (const stmt of sf.statements) {
+    if (ts.isImportDeclaration(stmt) && ts.isStringLiteral(stmt.moduleSpecifier)) {
+      imports.push(stmt.moduleSpecifier.text);
+    } else if (ts.isExportDeclaration(stmt)) {
+      if (stmt.exportClause && ts.isNamedExports(stmt.exportClause)) {
+        exports.push(...stmt.exportClause.elements.map((e) => e.name.text));
+      } else {
+        exports.push(`* from ${stmt.moduleSpecifier && ts.isStringLiteral(stmt.moduleSpecifier) ? stmt.moduleSpecifier.text : "?"}`);
+      }
+    } else if (ts.isExportAssignment(stmt)) {
+      exports.push("default");
+    }
+  }
+
+  const visit = (decls: Declaration[], prefix: string, depth: number) => {
+    for (const d of decls) {
+      const name = prefix ? `${prefix}.${d.name}` : d.name;
+      if (depth === 0 && isExported(ts, d.range)) exports.push(d.name);
+      entries.push({
+        name,
+        kind: d.kind,
+        signature: signatureOf(ts, sf, d),
+        line: sf.getLineAndCharacterOfPosition(d.range.getStart(sf)).line + 1,
+        depth,
+      });
+      // Members of classes, interfaces and namespaces belong in the skeleton;
+      // locals inside function bodies do not
+      if (d.kind === "class" || d.kind === "interface" || d.kind === "namespace") {
+        visit(declarationsIn(ts, d.node), name, depth + 1);
+      }
+    }
+  };
+  visit(declarationsIn(ts, sf), "", 0);
+
+  return { imports, exports, entries };
+}
+
+function isExported(ts: typeof TS, node: TS.Node): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+}
+
+/** The declaration's text up to where its body starts. */
+function signatureOf(ts: typeof TS, sf: TS.SourceFile, d: Declaration): string {
+  const start = d.range.getStart(sf);
+  let end = d.range.getEnd();
+
+  const bodyOf = (node: TS.Node): TS.Node | undefined => {
+    if (ts.isFunctionLike(node)) return (node as TS.FunctionLikeDeclaration).body;
+    return undefined;
+  };
+
+  const body = bodyOf(d.node) ?? bodyOf(d.range);
+  if (body) {
+    end = body.getStart(sf);
+  } else if (ts.isClassLike(d.node) || ts.isInterfaceDeclaration(d.node) || ts.isEnumDeclaration(d.node)) {
+    end = d.node.members.pos;
+  } else if (ts.isModuleDeclaration(d.node) && d.node.body) {
+    end = d.node.body.getStart(sf);
+  } else if (ts.isObjectLiteralExpression(d.node)) {
+    end = d.node.getStart(sf);
+  }
+
+  let text = sf.text.slice(start, end).replace(/\s+/g, " ").trim();
+  text = text.replace(/\s*(=>|=)?\s*\{?$/, (m, arrow) => (arrow === "=>" ? " =>" : "")).trim();
+  if (text.length > MAX_SIGNATURE) text = `${text.slice(0, MAX_SIGNATURE - 3)}...`;
+  return text;
+}
+
+const HEURISTIC_DECLARATIONS: RegExp[] = [
+  // Python, Ruby
+  /^(\s*)(?:async\s+)?(def|class|module)\s+([A-Za-z_][\w.?!]*)/,
+  // Go
+  /^(\s*)(func|type)\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  // Rust
+  /^(\s*)(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(fn|struct|enum|trait|impl|mod)\s+([A-Za-z_]\w*)/,
+  // Java, C#, Kotlin, Swift, PHP
+  /^(\s*)(?:(?:public|private|protected|internal|static|abstract|final|sealed|open|data)\s+)*(class|interface|enum|record|struct|object|fun|func|function)\s+([A-Za-z_]\w*)/,
+  // Shell functions
+  /^(\s*)(function)\s+([A-Za-z_][\w-]*)/,
+];
+
+const MARKDOWN_HEADING = /^()(#{1,6})\s+(.+)$/;
+
+const HEURISTIC_IMPORTS: RegExp[] = [
+  /^\s*import\s+([\w.]+)/,
+  /^\s*from\s+([\w.]+)\s+import\b/,
+  /^\s*#include\s+[<"]([^>"]+)[>"]/,
+  /^\s*use\s+([\w:]+)/,
+  /^\s*require(?:_relative)?\s*\(?\s*['"]([^'"]+)['"]/,
+];
+
+/** Line-based fallback for languages we cannot parse. Markdown outlines its headings. */
+function heuristicOutline(content: string, markdown: boolean): Outline {
+  const declarations = markdown ? [MARKDOWN_HEADING] : HEURISTIC_DECLARATIONS;
+  const importPatterns = markdown ? [] : HEURISTIC_IMPORTS;
+  const imports: string[] = [];
+  const entries: OutlineEntry[] = [];
+  const stack: Array<{ indent: number; name: string }> = [];
+
+  content.split("\n").forEach((line, i) => {
+    for (const re of importPatterns) {
+      const m = line.match(re);
+      if (m) {
+        imports.push(m[1]);
+        return;
+      }
+    }
+    for (const re of declarations) {
+      const m = line.match(re);
+      if (!m) continue;
+      const isHeading = markdown;
+      const indent = isHeading ? m[2].length - 1 : m[1].replace(/\t/g, "    ").length;
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+      const name = [...stack.map((s) => s.name), m[3].trim()].join(".");
+      let signature = line.trim().replace(/\s*[{:]\s*$/, "");
+      if (signature.length > MAX_SIGNATURE) signature = `${signature.slice(0, MAX_SIGNATURE - 3)}...`;
+      entries.push({
+        name,
+        kind: isHeading ? "heading" : m[2],
+        signature,
+        line: i + 1,
+        depth: stack.length,
+      });
+      stack.push({ indent, name: m[3].trim() });
+      return;
+    }
+  });
+
+  return { imports, exports: [], entries };
+}
+
+export function formatOutline(outline: Outline, totalLines: number, label: string): string {
+  const width = String(totalLines).length;
+  const lines = [`[cachebro: outline of ${label}, ${totalLines} lines, ${outline.entries.length} symbols]`];
+  if (outline.imports.length > 0) lines.push(`imports: ${outline.imports.join(", ")}`);
+  if (outline.exports.length > 0) lines.push(`exports: ${outline.exports.join(", ")}`);
+  for (const e of outline.entries) {
+    lines.push(`${String(e.line).padStart(width)}  ${"  ".repeat(e.depth)}${e.signature}`);
+  }
+  return lines.join("\n");
+}
+
+export function diffOutlines(before: Outline, after: Outline): OutlineDelta {
+  const key = (e: OutlineEntry) => `${e.kind} ${e.name}`;
+  const old = new Map(before.entries.map((e) => [key(e), e]));
+  const cur = new Map(after.entries.map((e) => [key(e), e]));
+
+  const delta: OutlineDelta = {
+    added: [],
+    removed: [],
+    changed: [],
+    moved: 0,
+    importsAdded: after.imports.filter((i) => !before.imports.includes(i)),
+    importsRemoved: before.imports.filter((i) => !after.imports.includes(i)),
+  };
+
+  for (const [k, e] of cur) {
+    const prev = old.get(k);
+    if (!prev) delta.added.push(e);
+    else if (prev.signature !== e.signature) delta.changed.push({ before: prev, after: e });
+    else if (prev.line !== e.line) delta.moved++;
+  }
+  for (const [k, e] of old) {
+    if (!cur.has(k)) delta.removed.push(e);
+  }
+
+  return delta;
+}
+
+export function formatOutlineDelta(delta: OutlineDelta, totalLines: number, label: string): string {
+  const affected = delta.added.length + delta.removed.length + delta.changed.length;
+  const lines = [`[cachebro: outline of ${label} changed, ${affected} symbols affected, ${totalLines} lines]`];
+  if (delta.importsAdded.length > 0) lines.push(`imports added: ${delta.importsAdded.join(", ")}`);
+  if (delta.importsRemoved.length > 0) lines.push(`imports removed: ${delta.importsRemoved.join(", ")}`);
+  for (const e of delta.added) lines.push(`+ ${e.line}  ${e.signature}`);
+  for (const e of delta.removed) lines.push(`- ${e.name} (was line ${e.line})`);
+  for (const { before, after } of delta.changed) {
+    lines.push(`~ ${after.line}  ${after.signature}`);
+    lines.push(`    was: ${before.signature}`);
+  }
+  if (delta.moved > 0) lines.push(`(${delta.moved} other symbols moved; re-outline with force=true for current line numbers)`);
+  return lines.join("\n");
+}
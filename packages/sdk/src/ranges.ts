@@ -0,0 +1,65 @@
+/**
+ * Helpers for 1-based, inclusive line ranges.
+ */
+
+export type LineRange = [start: number, end: number];
+
+/** Sort and merge overlapping or adjacent ranges. */
+export function mergeRanges(ranges: LineRange[]): LineRange[] {
+  const sorted = ranges.filter(([s, e]) => e >= s).sort((a, b) => a[0] - b[0]);
+  const out: LineRange[] = [];
+  for (const [s, e] of sorted) {
+    const last = out[out.length - 1];
+    if (last && s <= last[1] + 1) {
+      last[1] = Math.max(last[1], e);
+    } else {
+      out.push([s, e]);
+    }
+  }
+  return out;
+}
+
+/** The parts of `range` not covered by `covered` (which must be merged). */
+export function subtractRanges(range: LineRange, covered: LineRange[]): LineRange[] {
+  const out: LineRange[] = [];
+  let cursor = range[0];
+  for (const [s, e] of covered) {
+    if (e < cursor) continue;
+    if (s > range[1]) break;
+    if (s > cursor) out.push([cursor, s - 1]);
+    cursor = Math.max(cursor, e + 1);
+    if (cursor > range[1]) break;
+  }
+  if (cursor <= range[1]) out.push([cursor, range[1]]);
+  return out;
+}
+
+/** Number of lines in `range` that fall inside `covered` (which must be merged). */
+export function coveredLines(range: LineRange, covered: LineRange[]): number {
+  const missing = subtractRanges(range, covered);
+  const total = range[1] - range[0] + 1;
+  return total - missing.reduce((sum, [s, e]) => sum + e - s + 1, 0);
+}
+
+export function formatRanges(ranges: LineRange[]): string {
+  return ranges.map(([s, e]) => (s === e ? `${s}` : `${s}-${e}`)).join(", ");
+}
+
+/**
+ * Carry ranges seen in an old version over to a new one: the new lines that
+ * are unchanged copies of a covered old line. `oldLineOf` maps new line
+ * numbers to old ones (0 for lines that are new), as DiffResult does; lines
+ * in `changed` (e.g. next to a removal) are never carried.
+ */
+export function carryRanges(covered: LineRange[], oldLineOf: Int32Array, changed?: Set<number>): LineRange[] {
+  const out: LineRange[] = [];
+  let i = 0;
+  for (let line = 1; line < oldLineOf.length; line++) {
+    const old = oldLineOf[line];
+    if (old === 0 || changed?.has(line)) continue;
+    while (i < covered.length && covered[i][1] < old) i++;
+    if (i === covered.length) break;
+    if (old >= covered[i][0]) out.push([line, line]);
+  }
+  return mergeRanges(out);
+}
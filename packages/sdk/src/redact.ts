@@ -0,0 +1,154 @@
+/**
+ * Secret redaction. Secrets are replaced with placeholders before content is
+ * hashed, stored or diffed, so neither the agent nor the database sees them.
+ * A placeholder names the detector and a hash of the secret: the same secret
+ * always reads the same, and a rotated one shows up in diffs. A secret that
+ * spans lines keeps its line breaks, so line numbers still match the file.
+ */
+
+import { createHash } from "crypto";
+import type { RedactionPolicy } from "./types.js";
+
+const PLACEHOLDER_PREFIX = "[REDACTED:";
+
+interface Detector {
+  name: string;
+  re: RegExp;
+  /** Capture group holding the secret: 0 is the whole match, -1 the first group if there is one */
+  group: number;
+  /** Further test of a candidate secret, given the whole match */
+  accept?: (secret: string, match: RegExpMatchArray) => boolean;
+}
+
+const NAME = String.raw`[A-Za-z_][A-Za-z0-9_.-]*`;
+const SECRET_VALUE = String.raw`[A-Za-z0-9+/=_\-.~!@#%^&*]{12,}`;
+
+/** Last name segments that say the value is a secret: `DB_PASSWORD`, `authToken`, `client-secret` */
+const SECRET_WORDS = new Set(["secret", "token", "password", "passwd", "pwd", "passphrase", "credential", "credentials", "apikey", "auth"]);
+/** Words that make a trailing `key` one: `apiKey`, `PRIVATE_KEY` */
+const KEY_KINDS = new Set(["api", "access", "private", "secret", "signing", "encryption", "master"]);
+
+/**
+ * Whether an assignment's name ends in a secret word, matched as whole
+ * segments split on `_`, `-`, `.` and camelCase: `authorEmail`,
+ * `tokenizerName` and `passwordHint` name no secret.
+ */
+function isSecretName(name: string): boolean {
+  const segments = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[\s_.-]+/)
+    .filter(Boolean);
+  const last = segments[segments.length - 1];
+  if (last === "key") return KEY_KINDS.has(segments[segments.length - 2]);
+  return SECRET_WORDS.has(last);
+}
+
+/**
+ * A secret-named assignment only holds a secret if its value looks random:
+ * high entropy, letters mixed with digits or both cases, and not an email
+ * address, URL or host name.
+ */
+function looksRandom(value: string): boolean {
+  if (/[\s@]/.test(value) || value.includes("://") || /^(?:[\w-]+\.)+[a-z]{2,}(?:\/\S*)?$/i.test(value)) return false;
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/].filter((re) => re.test(value)).length;
+  return classes >= 2 && entropy(value) >= 3.5;
+}
+
+const acceptAssignment = (secret: string, match: RegExpMatchArray) => isSecretName(match[1]) && looksRandom(secret);
+
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    re: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/dg,
+    group: 0,
+  },
+  { name: "aws-access-key", re: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/dg, group: 0 },
+  { name: "github-token", re: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/dg, group: 0 },
+  // apiKey = "…", "client_secret": "…", password: '…'
+  {
+    name: "secret-assignment",
+    re: new RegExp(String.raw`\b(${NAME})["']?\s*[:=]\s*(["'\x60])(${SECRET_VALUE})\2`, "dg"),
+    group: 3,
+    accept: acceptAssignment,
+  },
+  // API_TOKEN=… in .env-style and shell files
+  {
+    name: "secret-assignment",
+    re: new RegExp(String.raw`^[ \t]*(?:export[ \t]+)?(${NAME})=(${SECRET_VALUE})[ \t]*\r?$`, "dgm"),
+    group: 2,
+    accept: acceptAssignment,
+  },
+];
+
+export interface Redactor {
+  /** Replace every secret in `text` with its placeholder. */
+  redact(text: string): string;
+  /**
+   * Put the secrets of `original` back wherever `text` holds their
+   * placeholders, so content written back from a redacted view keeps them.
+   */
+  restore(text: string, original: string): string;
+}
+
+export function compileRedactor(policy?: RedactionPolicy): Redactor {
+  const detectors = policy?.builtin === false ? [] : [...BUILTIN_DETECTORS];
+  for (const [name, pattern] of Object.entries(policy?.patterns ?? {})) {
+    const source = typeof pattern === "string" ? pattern : pattern.source;
+    const flags = typeof pattern === "string" ? "" : pattern.flags.replace(/[gdy]/g, "");
+    detectors.push({ name, re: new RegExp(source, flags + "dg"), group: -1 });
+  }
+
+  const scan = (text: string) => {
+    const secrets = new Map<string, string>();
+    for (const detector of detectors) {
+      let out = "";
+      let last = 0;
+      let changed = false;
+      for (const m of text.matchAll(detector.re)) {
+        const group = detector.group >= 0 ? detector.group : m[1] !== undefined ? 1 : 0;
+        const secret = m[group];
+        if (!secret || secret.includes(PLACEHOLDER_PREFIX) || (detector.accept && !detector.accept(secret, m))) continue;
+        const [start, end] = m.indices![group]!;
+        const placeholder = `${PLACEHOLDER_PREFIX}${detector.name}:${secretHash(secret)}]`;
+        secrets.set(placeholder, secret);
+        out += text.slice(last, start) + placeholder + lineBreaks(secret);
+        last = end;
+        changed = true;
+      }
+      if (changed) text = out + text.slice(last);
+    }
+    return { text, secrets };
+  };
+
+  return {
+    redact(text) {
+      return detectors.length > 0 ? scan(text).text : text;
+    },
+    restore(text, original) {
+      if (!text.includes(PLACEHOLDER_PREFIX)) return text;
+      for (const [placeholder, secret] of scan(original).secrets) {
+        text = text.split(placeholder + lineBreaks(secret)).join(secret).split(placeholder).join(secret);
+      }
+      return text;
+    },
+  };
+}
+
+function lineBreaks(text: string): string {
+  return text.replace(/[^\r\n]/g, "");
+}
+
+function secretHash(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex").slice(0, 8);
+}
+
+/** Shannon entropy in bits per character */
+function entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const c of text) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) bits -= (n / text.length) * Math.log2(n / text.length);
+  return bits;
+}
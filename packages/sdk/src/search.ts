@@ -0,0 +1,118 @@
+/**
+ * Text search over file contents: matching, formatting, and the delta between
+ * two result sets for the same query.
+ */
+
+export interface SearchMatch {
+  /** Path relative to the search root */
+  path: string;
+  /** 1-based line number */
+  line: number;
+  text: string;
+  /** Context lines before and after the match */
+  before?: string[];
+  after?: string[];
+}
+
+/** A match within a single file, as cached per content hash. */
+export type FileMatch = Omit<SearchMatch, "path">;
+
+export interface SearchDelta {
+  appeared: SearchMatch[];
+  disappeared: SearchMatch[];
+}
+
+export interface Matcher {
+  /** Identifies the matching behaviour, for caching per-file results */
+  key: string;
+  test(line: string): boolean;
+}
+
+/** Lines longer than this are cut in results. */
+const MAX_LINE_CHARS = 240;
+
+export function compileMatcher(query: string, options: { regex: boolean; caseSensitive: boolean; context: number }): Matcher {
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const re = new RegExp(source, options.caseSensitive ? "" : "i");
+  return {
+    key: JSON.stringify([query, options.regex, options.caseSensitive, options.context]),
+    test: (line) => re.test(line),
+  };
+}
+
+export function findMatches(content: string, matcher: Matcher, context: number): FileMatch[] {
+  const lines = content.split("\n");
+  const out: FileMatch[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!matcher.test(lines[i])) continue;
+    const match: FileMatch = { line: i + 1, text: clip(lines[i]) };
+    if (context > 0) {
+      match.before = lines.slice(Math.max(0, i - context), i).map(clip);
+      match.after = lines.slice(i + 1, i + 1 + context).map(clip);
+    }
+    out.push(match);
+  }
+  return out;
+}
+
+function clip(line: string): string {
+  const trimmed = line.replace(/\r$/, "");
+  return trimmed.length > MAX_LINE_CHARS ? `${trimmed.slice(0, MAX_LINE_CHARS)}...` : trimmed;
+}
+
+/**
+ * Matches are identified by file and line text, not line number, so edits
+ * elsewhere in a file don't make every match below them look new.
+ */
+export function diffMatches(before: SearchMatch[], after: SearchMatch[]): SearchDelta {
+  const key = (m: SearchMatch) => `${m.path}\0${m.text}`;
+  const count = (matches: SearchMatch[]) => {
+    const counts = new Map<string, number>();
+    for (const m of matches) counts.set(key(m), (counts.get(key(m)) ?? 0) + 1);
+    return counts;
+  };
+  const surplus = (from: SearchMatch[], against: Map<string, number>) => {
+    const remaining = new Map(against);
+    return from.filter((m) => {
+      const n = remaining.get(key(m)) ?? 0;
+      if (n > 0) {
+        remaining.set(key(m), n - 1);
+        return false;
+      }
+      return true;
+    });
+  };
+  return {
+    appeared: surplus(after, count(before)),
+    disappeared: surplus(before, count(after)),
+  };
+}
+
+export function fileCount(matches: SearchMatch[]): number {
+  return new Set(matches.map((m) => m.path)).size;
+}
+
+/** Group matches by file, grep-style: ":" marks a match line, "-" a context line. */
+export function formatMatches(matches: SearchMatch[], marker = ""): string[] {
+  const lines: string[] = [];
+  let currentPath: string | null = null;
+  for (const m of matches) {
+    if (m.path !== currentPath) {
+      lines.push(`${marker}${m.path}`);
+      currentPath = m.path;
+    }
+    (m.before ?? []).forEach((text, i, all) => lines.push(`${marker}  ${m.line - all.length + i}- ${text}`));
+    lines.push(`${marker}  ${m.line}: ${m.text}`);
+    (m.after ?? []).forEach((text, i) => lines.push(`${marker}  ${m.line + i + 1}- ${text}`));
+  }
+  return lines;
+}
+
+export function formatSearchDelta(delta: SearchDelta, total: SearchMatch[], label: string): string {
+  const lines = [
+    `[cachebro: ${label} changed, ${delta.appeared.length} new, ${delta.disappeared.length} gone, now ${total.length} matches in ${fileCount(total)} files]`,
+  ];
+  lines.push(...formatMatches(delta.appeared, "+ "));
+  for (const m of delta.disappeared) lines.push(`- ${m.path}:${m.line}: ${m.text}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,24 @@
+/**
+ * Choosing how to send a changed file. The forms are listed from easiest to
+ * read to most compact: the whole new content, a diff with context lines,
+ * and a diff without them. A patch is only sent if it is cheaper than the
+ * whole content by more than the margin, so a diff that saves a few tokens
+ * does not replace content the agent can read straight through.
+ */
+
+export type ResponseForm = "replacement" | "diff" | "compact";
+
+export interface ResponseCandidate {
+  form: ResponseForm;
+  /** Tokens the agent would receive */
+  tokens: number;
+}
+
+/** A patch must be at least 10% smaller than the content it stands for */
+export const DEFAULT_SELECTION_MARGIN = 0.1;
+
+/** The first candidate cheaper than the first one by more than the margin, or the first one. */
+export function selectResponse<T extends ResponseCandidate>(candidates: T[], margin: number): T {
+  const [whole, ...patches] = candidates;
+  return patches.find((p) => p.tokens < whole.tokens * (1 - margin)) ?? whole;
+}
@@ -0,0 +1,217 @@
+/**
+ * Locating declarations in TypeScript/JavaScript source.
+ * Uses the TypeScript compiler's parser (no type checking), loaded on first use.
+ */
+
+import type * as TS from "typescript";
+
+export interface SymbolLocation {
+  /** Dotted path to the declaration, e.g. "CacheStore.readFile" */
+  name: string;
+  /** Declaration kind: function, class, method, variable, ... */
+  kind: string;
+  /** First line, including leading JSDoc (1-based) */
+  startLine: number;
+  /** Last line (1-based, inclusive) */
+  endLine: number;
+}
+
+export interface Declaration {
+  name: string;
+  kind: string;
+  /** Node whose children hold nested declarations */
+  node: TS.Node;
+  /** Node whose text is the declaration (a whole `const` statement, not just its binding) */
+  range: TS.Node;
+}
+
+const SCRIPT_EXTENSIONS: Record<string, string> = {
+  ".ts": "TS", ".mts": "TS", ".cts": "TS", ".tsx": "TSX",
+  ".js": "JS", ".mjs": "JS", ".cjs": "JS", ".jsx": "JSX",
+};
+
+let tsModule: typeof TS | null = null;
+
+async function loadTypeScript(): Promise<typeof TS> {
+  if (!tsModule) {
+    const mod = await import("typescript");
+    tsModule = ((mod as any).default ?? mod) as typeof TS;
+  }
+  return tsModule;
+}
+
+export function isScriptFile(filePath: string): boolean {
+  return scriptExtension(filePath) !== null;
+}
+
+function scriptExtension(filePath: string): string | null {
+  const dot = filePath.lastIndexOf(".");
+  if (dot < 0) return null;
+  return SCRIPT_EXTENSIONS[filePath.slice(dot).toLowerCase()] ?? null;
+}
+
+export async function parseScript(content: string, filePath: string): Promise<{ ts: typeof TS; sf: TS.SourceFile }> {
+  const ts = await loadTypeScript();
+  const kind = scriptExtension(filePath);
+  if (!kind) throw new Error(`Not a TypeScript/JavaScript file: ${filePath}`);
+  const scriptKind = ts.ScriptKind[kind as keyof typeof ts.ScriptKind];
+  const sf = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+  return { ts, sf };
+}
+
+/**
+ * Find a declaration by name. Dotted names walk into classes, namespaces,
+ * object literals and function bodies ("Store.read", "utils.format").
+ * A name not found at the top level is searched for breadth-first.
+ */
+export async function findSymbol(content: string, filePath: string, name: string): Promise<SymbolLocation | null> {
+  const { ts, sf } = await parseScript(content, filePath);
+  const segments = name.split(".").filter(Boolean);
+  if (segments.length === 0) return null;
+
+  let matches = declarationsIn(ts, sf).filter((d) => d.name === segments[0]);
+  if (matches.length === 0) {
+    const nested = searchNested(ts, sf, segments[0]);
+    if (nested) matches = [nested];
+  }
+
+  let current: Declaration | undefined = matches[0];
+  let qualified = current ? qualifiedName(ts, current) : "";
+  for (const segment of segments.slice(1)) {
+    if (!current) return null;
+    current = declarationsIn(ts, current.node).find((d) => d.name === segment);
+    qualified = `${qualified}.${segment}`;
+  }
+  if (!current) return null;
+
+  return {
+    name: qualified,
+    kind: current.kind,
+    startLine: sf.getLineAndCharacterOfPosition(current.range.getStart(sf, true)).line + 1,
+    endLine: sf.getLineAndCharacterOfPosition(current.range.getEnd()).line + 1,
+  };
+}
+
+/** Names of the top-level declarations, for error messages. */
+export async function listTopLevelSymbols(content: string, filePath: string): Promise<string[]> {
+  const { ts, sf } = await parseScript(content, filePath);
+  return declarationsIn(ts, sf).map((d) => d.name);
+}
+
+function searchNested(ts: typeof TS, root: TS.Node, name: string): Declaration | null {
+  let level = declarationsIn(ts, root);
+  while (level.length > 0) {
+    const found = level.find((d) => d.name === name);
+    if (found) return found;
+    level = level.flatMap((d) => declarationsIn(ts, d.node));
+  }
+  return null;
+}
+
+/** Reconstruct the dotted path for a declaration found by nested search. */
+function qualifiedName(ts: typeof TS, decl: Declaration): string {
+  const parts = [decl.name];
+  let node: TS.Node | undefined = decl.range.parent;
+  while (node && !ts.isSourceFile(node)) {
+    const name = declarationName(ts, node);
+    if (name && isContainer(ts, node)) parts.unshift(name);
+    node = node.parent;
+  }
+  return parts.join(".");
+}
+
+function isContainer(ts: typeof TS, node: TS.Node): boolean {
+  return ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isModuleDeclaration(node) ||
+    ts.isEnumDeclaration(node) || ts.isFunctionLike(node) || ts.isVariableDeclaration(node) ||
+    ts.isPropertyAssignment(node);
+}
+
+function declarationName(ts: typeof TS, node: TS.Node): string | null {
+  if (ts.isConstructorDeclaration(node)) return "constructor";
+  const name = (node as any).name as TS.Node | undefined;
+  if (!name) return null;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+function kindOf(ts: typeof TS, node: TS.Node): string {
+  if (ts.isFunctionDeclaration(node)) return "function";
+  if (ts.isClassLike(node)) return "class";
+  if (ts.isInterfaceDeclaration(node)) return "interface";
+  if (ts.isTypeAliasDeclaration(node)) return "type";
+  if (ts.isEnumDeclaration(node)) return "enum";
+  if (ts.isModuleDeclaration(node)) return "namespace";
+  if (ts.isConstructorDeclaration(node)) return "constructor";
+  if (ts.isMethodDeclaration(node) || ts.isMethodSignature(node)) return "method";
+  if (ts.isGetAccessorDeclaration(node)) return "getter";
+  if (ts.isSetAccessorDeclaration(node)) return "setter";
+  if (ts.isPropertyDeclaration(node) || ts.isPropertySignature(node) || ts.isPropertyAssignment(node)) return "property";
+  if (ts.isEnumMember(node)) return "member";
+  if (ts.isVariableDeclaration(node)) {
+    const init = node.initializer;
+    if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) return "function";
+    if (init && ts.isClassExpression(init)) return "class";
+    return "variable";
+  }
+  return "declaration";
+}
+
+/** Declarations directly inside `node`. */
+export function declarationsIn(ts: typeof TS, node: TS.Node): Declaration[] {
+  const out: Declaration[] = [];
+
+  const add = (decl: TS.Node, range: TS.Node = decl, inner: TS.Node = decl) => {
+    const name = declarationName(ts, decl);
+    if (name) out.push({ name, kind: kindOf(ts, decl), node: inner, range });
+  };
+
+  const visitStatements = (statements: readonly TS.Statement[]) => {
+    for (const stmt of statements) {
+      if (ts.isVariableStatement(stmt)) {
+        const decls = stmt.declarationList.declarations;
+        for (const d of decls) {
+          add(d, decls.length === 1 ? stmt : d, d.initializer ?? d);
+        }
+      } else if (ts.isExportAssignment(stmt)) {
+        out.push({ name: "default", kind: "export", node: stmt.expression, range: stmt });
+      } else if (
+        ts.isFunctionDeclaration(stmt) || ts.isClassDeclaration(stmt) || ts.isInterfaceDeclaration(stmt) ||
+        ts.isTypeAliasDeclaration(stmt) || ts.isEnumDeclaration(stmt) || ts.isModuleDeclaration(stmt)
+      ) {
+        if (!declarationName(ts, stmt) && (ts.isFunctionDeclaration(stmt) || ts.isClassDeclaration(stmt))) {
+          // export default function () {} / export default class {}
+          out.push({ name: "default", kind: kindOf(ts, stmt), node: stmt, range: stmt });
+        } else {
+          add(stmt);
+        }
+      }
+    }
+  };
+
+  if (ts.isSourceFile(node) || ts.isBlock(node) || ts.isModuleBlock(node)) {
+    visitStatements(node.statements);
+  } else if (ts.isModuleDeclaration(node)) {
+    if (node.body) out.push(...declarationsIn(ts, node.body));
+  } else if (ts.isClassLike(node)) {
+    for (const m of node.members) add(m);
+  } else if (ts.isInterfaceDeclaration(node) || ts.isTypeLiteralNode(node)) {
+    for (const m of node.members) add(m);
+  } else if (ts.isEnumDeclaration(node)) {
+    for (const m of node.members) add(m);
+  } else if (ts.isObjectLiteralExpression(node)) {
+    for (const p of node.properties) {
+      add(p, p, ts.isPropertyAssignment(p) ? p.initializer : p);
+    }
+  } else if (ts.isFunctionLike(node) && (node as TS.FunctionLikeDeclaration).body) {
+    const body = (node as TS.FunctionLikeDeclaration).body!;
+    if (ts.isBlock(body)) visitStatements(body.statements);
+  } else if (ts.isTypeAliasDeclaration(node)) {
+    if (ts.isTypeLiteralNode(node.type)) out.push(...declarationsIn(ts, node.type));
+  } else if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    out.push(...declarationsIn(ts, node.expression));
+  }
+
+  return out;
+}
@@ -0,0 +1,70 @@
+/**
+ * Token counting for the "tokens saved" numbers. The BPE vocabularies ship
+ * with the package, so counting never touches the network. Savings are stored
+ * per tokenizer, so switching presets doesn't mix incomparable numbers.
+ */
+
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+export interface Tokenizer {
+  /** Identifies the tokenizer in stored stats */
+  name: string;
+  count(text: string): number;
+}
+
+/**
+ * - `cl100k`: GPT-4 / GPT-3.5 vocabulary; a close stand-in for other modern models
+ * - `o200k`: GPT-4o and later
+ * - `estimate`: the original `ceil(chars * 0.75)`, kept for comparison with old stats
+ */
+export type TokenizerPreset = "cl100k" | "o200k" | "estimate";
+
+export const TOKENIZER_PRESETS: readonly TokenizerPreset[] = ["cl100k", "o200k", "estimate"];
+
+export const DEFAULT_TOKENIZER: TokenizerPreset = "cl100k";
+
+/**
+ * BPE merging is quadratic in the length of a pre-token, so a long unbroken
+ * run (minified code, base64, a lockfile hash) is counted from a sample of
+ * this many characters and scaled to its length.
+ */
+const MAX_PIECE = 64;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length * 0.75);
+}
+
+/** Build a preset tokenizer. Vocabularies are decoded on first use. */
+export function createTokenizer(preset: TokenizerPreset): Tokenizer {
+  if (preset === "estimate") return { name: "estimate", count: estimateTokens };
+  const ranks = preset === "o200k" ? o200k_base : preset === "cl100k" ? cl100k_base : null;
+  if (!ranks) {
+    throw new Error(`Unknown tokenizer "${preset}". Expected one of: ${TOKENIZER_PRESETS.join(", ")}`);
+  }
+  let bpe: Tiktoken | null = null;
+  const pieces = new RegExp(ranks.pat_str, "ug");
+  return {
+    name: preset,
+    count(text) {
+      bpe ??= new Tiktoken(ranks);
+      // Special-token markers in file content are ordinary text here
+      const encode = (part: string) => (part ? bpe!.encode(part, [], []).length : 0);
+      let tokens = 0;
+      let last = 0;
+      for (const match of text.matchAll(pieces)) {
+        if (match[0].length <= MAX_PIECE) continue;
+        tokens += encode(text.slice(last, match.index));
+        tokens += Math.round((encode(match[0].slice(0, MAX_PIECE)) * match[0].length) / MAX_PIECE);
+        last = match.index! + match[0].length;
+      }
+      return tokens + encode(text.slice(last));
+    },
+  };
+}
+
+export function resolveTokenizer(tokenizer: Tokenizer | TokenizerPreset | undefined): Tokenizer {
+  if (tokenizer === undefined) return createTokenizer(DEFAULT_TOKENIZER);
+  return typeof tokenizer === "string" ? createTokenizer(tokenizer) : tokenizer;
+}
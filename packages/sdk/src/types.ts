@@ -1,3 +1,10 @@
+import type { DiffOptions } from "./differ.js";
+import type { Outline } from "./outline.js";
+import type { LineRange } from "./ranges.js";
+import type { ResponseForm } from "./select.js";
+import type { SymbolLocation } from "./symbols.js";
+import type { Tokenizer, TokenizerPreset } from "./tokenizer.js";
+
 export interface CacheConfig {
   /** Path to the database file */
   dbPath: string;
@@ -5,6 +12,121 @@ export interface CacheConfig {
   sessionId: string;
   /** Directories to watch for file changes. Defaults to cwd. */
   watchPaths?: string[];
+  /** How long the watcher waits for a burst of changes to a file to settle. Default: 100 */
+  watchDebounceMs?: number;
+  /** Retention policy applied by gc(). Unset fields use the defaults. */
+  retention?: RetentionPolicy;
+  /** Diff context, and the size/time budget for diffing. Over budget, reads return the full file instead. */
+  diff?: DiffOptions;
+  /** Per-response token budget. Larger results are paged with a continuation marker. 0 disables. Default: 50000 */
+  maxResponseTokens?: number;
+  /** When to assume a file has left the agent's context and send it in full again. Default: never */
+  staleness?: StalenessPolicy;
+  /** Counts tokens saved and response budgets: a preset name or your own. Default: "cl100k" */
+  tokenizer?: Tokenizer | TokenizerPreset;
+  /** JSONL file each read event is also appended to, readable while the database is in use */
+  eventLog?: string;
+  /** Which files may be read and written, and how secret-bearing files are handled */
+  access?: AccessPolicy;
+  /** Secrets replaced with placeholders before content is hashed, stored, diffed or returned */
+  redaction?: RedactionPolicy;
+  /** Which files the watcher, listings and searches skip, and whether reads do too */
+  ignore?: IgnorePolicy;
+  /** How a changed file is sent: whole, as a diff, or as a diff without context lines */
+  selection?: SelectionPolicy;
+}
+
+export interface AccessPolicy {
+  /** Files must be under one of these directories, after resolving symlinks. Default: watchPaths, or cwd */
+  roots?: string[];
+  /** Globs naming files that usually hold secrets. Default: DEFAULT_SENSITIVE_PATTERNS */
+  sensitive?: string[];
+  /**
+   * "refuse" fails reads of sensitive files; "uncached" returns their content
+   * without storing it. Other tools always refuse them. Default: "refuse"
+   */
+  onSensitive?: "refuse" | "uncached";
+}
+
+export interface RedactionPolicy {
+  /** Apply the built-in detectors: AWS keys, GitHub tokens, private keys, secret-looking assignments. Default: true */
+  builtin?: boolean;
+  /**
+   * Your own detectors, by name. With a capture group only the first group
+   * is redacted, so `password=(\S+)` keeps the key visible.
+   */
+  patterns?: Record<string, string | RegExp>;
+}
+
+export interface IgnorePolicy {
+  /** Ignore files read in every directory under the roots, in .gitignore syntax. Default: DEFAULT_IGNORE_FILES */
+  files?: string[];
+  /** Further patterns in .gitignore syntax, relative to each root */
+  patterns?: string[];
+  /** Answer reads of ignored files with "ignored file" instead of reading and caching them. Default: false */
+  reads?: boolean;
+}
+
+export interface SelectionPolicy {
+  /**
+   * How much smaller, as a fraction, a diff must be than the full content to
+   * be sent instead. A diff without context lines is only tried when one with
+   * them is not small enough. Default: 0.1
+   */
+  margin?: number;
+}
+
+export interface StalenessPolicy {
+  /** Content sent longer ago than this is sent in full again. 0 disables */
+  maxAgeMs?: number;
+  /** Content sent more than this many file reads ago is sent in full again. 0 disables */
+  maxReadsSince?: number;
+}
+
+export interface ReadOptions {
+  /** Line number to start reading from (1-based) */
+  offset?: number;
+  /** Number of lines to read */
+  limit?: number;
+  /** Token budget for this response, overriding CacheConfig.maxResponseTokens */
+  maxTokens?: number;
+}
+
+export interface ListOptions {
+  /** How many levels to descend; 1 lists only the directory's own entries. Default: 1 */
+  depth?: number;
+  /** Only list files matching this glob, e.g. "*.ts" or "test/*.test.ts" */
+  glob?: string;
+  /** Return the full listing even if this session has seen it */
+  force?: boolean;
+}
+
+export interface SearchOptions {
+  /** Directory to search. Default: current directory */
+  path?: string;
+  /** Only search files matching this glob */
+  glob?: string;
+  /** Treat the query as a regular expression instead of a literal. Default: false */
+  regex?: boolean;
+  /** Default: false */
+  caseSensitive?: boolean;
+  /** Lines of context around each match. Default: 0 */
+  context?: number;
+  /** Stop after this many matches. Default: 200 */
+  maxMatches?: number;
+  /** Return the full result set even if this session has seen it */
+  force?: boolean;
+}
+
+export interface RetentionPolicy {
+  /** Unreferenced versions to keep per path, newest first. Default: 1 */
+  keepVersionsPerPath?: number;
+  /** Sessions inactive for longer than this are expired. 0 disables. Default: 7 days */
+  sessionTtlMs?: number;
+  /** Upper bound on database bytes in use, tables and indexes included. 0 disables. Default: 0 */
+  maxDbBytes?: number;
+  /** Read events to keep, newest first. 0 keeps all. Default: 10000 */
+  maxReadEvents?: number;
 }
 
 export interface FileReadResult {
@@ -18,15 +140,231 @@ export interface FileReadResult {
   linesChanged?: number;
   /** Total lines in the file */
   totalLines?: number;
-  /** Content hash */
+  /** Content hash; empty for a sensitive file served uncached, or an ignored one */
+  hash: string;
+  /** Content was cut at the token budget */
+  truncated?: boolean;
+  /** When truncated, the offset to pass to continue reading */
+  nextOffset?: number;
+  /** Binary file: content is a metadata summary, never the bytes themselves */
+  binary?: boolean;
+  /** Tokens this read saved, counted with the configured tokenizer */
+  tokensSaved?: number;
+  /** For a file changed since this session's last read: whether `content` replaces that version or patches it */
+  form?: ResponseForm;
+}
+
+export interface FileWriteResult {
+  /** Summary of the write, plus any changes made outside this session since its last read */
+  content: string;
+  /** Hash of the new content */
+  hash: string;
+  /** Total lines in the new content */
+  totalLines: number;
+  /** Unified diff of changes made outside this session since its last read */
+  externalDiff?: string;
+}
+
+export interface SymbolReadResult extends FileReadResult {
+  /** The declaration that was read, with its current line range */
+  symbol: SymbolLocation;
+}
+
+export interface OutlineReadResult extends FileReadResult {
+  /** The file's current outline */
+  outline: Outline;
+}
+
+export interface DirectoryListResult {
+  /** Whether this was served from cache */
+  cached: boolean;
+  /** The listing on first read, "unchanged" or the added/removed/renamed entries afterwards */
+  content: string;
+  /** Number of entries in the current listing */
+  entries: number;
+  /** Listing hash */
+  hash: string;
+  /** The walk stopped at the entry limit */
+  truncated?: boolean;
+}
+
+export interface SearchResult {
+  /** Whether this was served from cache */
+  cached: boolean;
+  /** All matches on first search, "unchanged" or the matches that appeared/disappeared afterwards */
+  content: string;
+  /** Number of matches in the current result set */
+  matches: number;
+  /** Number of files with matches */
+  files: number;
+  /** Files that had to be read and scanned; the rest were unchanged since an earlier search */
+  filesScanned: number;
+  /** The result set stopped at maxMatches */
+  truncated?: boolean;
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  /** Files this session has read */
+  filesRead: number;
+  /** Time of the session's latest tracked operation (ms since epoch), 0 if unknown */
+  lastActivity: number;
+  tokensSaved: number;
+}
+
+export interface SessionDetail extends SessionInfo {
+  /** Files read, most recent first */
+  files: Array<{ path: string; readAt: number }>;
+}
+
+export interface SessionManifest {
+  sessionId: string;
+  /** Files this session has read, most recent first */
+  files: SessionManifestEntry[];
+}
+
+export interface SessionManifestEntry {
+  path: string;
+  /** Version the session last saw */
   hash: string;
+  /** Lines in that version */
+  lines: number;
+  /** Last read (ms since epoch) */
+  readAt: number;
+  /** Whether the file on disk still matches what the session saw */
+  status: "unchanged" | "changed" | "deleted";
+  /** Line ranges seen, if the session only holds part of the version */
+  partial?: LineRange[];
+  /** True if the staleness policy would send the file in full on its next read */
+  stale?: boolean;
 }
 
 export interface CacheStats {
   /** Total files cached */
   filesTracked: number;
-  /** Approximate tokens saved across all sessions */
+  /** Tokenizer the token counts below are measured in */
+  tokenizer: string;
+  /** Tokens saved across all sessions */
   tokensSaved: number;
-  /** Approximate tokens saved in this session */
+  /** Tokens saved in this session */
   sessionTokensSaved: number;
+  /** Tokens saved across all sessions, for every tokenizer that has counted any */
+  tokensSavedByTokenizer: Record<string, number>;
+  /** Outcomes of file reads across all sessions */
+  reads: ReadCounters;
+  /** Outcomes of file reads in this session */
+  sessionReads: ReadCounters;
+  /** Files read most often, across all sessions */
+  mostRead: FileStats[];
+  /** Files most often found changed when read, across all sessions */
+  mostChanged: FileStats[];
+}
+
+export interface ReadCounters {
+  /** Content sent in full: first reads, and changes a diff could not express */
+  full: number;
+  /** Nothing changed: answered with a one-line label */
+  unchanged: number;
+  /** Answered with a diff */
+  diff: number;
+  /** Only the lines not already sent were returned */
+  partial: number;
+  /** Full reads that bypassed the cache */
+  forced: number;
+  /** Reads that failed, e.g. the file did not exist */
+  errors: number;
+  /** Bytes of responses */
+  bytesReturned: number;
+  /** Bytes of the files read, as they are on disk */
+  bytesOnDisk: number;
+}
+
+export interface FileStats {
+  path: string;
+  reads: number;
+  /** Reads answered from the cache: unchanged, diff or only missing lines */
+  hits: number;
+  /** Reads that found a different version than the previous read */
+  changes: number;
+  lastReadAt: number;
+}
+
+export type ReadEventKind = "full" | "unchanged" | "diff" | "partial" | "forced" | "error";
+
+/** One readFile() or readFileFull() call and what it returned. */
+export interface ReadEvent {
+  /** Increases with every event; pass as afterId to fetch only newer ones */
+  id: number;
+  sessionId: string;
+  path: string;
+  /** Requested start line of a partial read */
+  offset?: number;
+  /** Requested line count of a partial read */
+  limit?: number;
+  /** Version the session held before the read */
+  oldHash?: string;
+  /** Version on disk; unset when the read failed */
+  newHash?: string;
+  kind: ReadEventKind;
+  tokensReturned: number;
+  tokensSaved: number;
+  /** Why the read failed */
+  error?: string;
+  timestamp: number;
+}
+
+export interface ReadEventQuery {
+  /** Only events of this session */
+  sessionId?: string;
+  /** Only events for this file, directory or glob (relative to cwd) */
+  path?: string;
+  /** Only events with a greater id */
+  afterId?: number;
+  /** Return at most this many, the most recent ones. Default: all */
+  limit?: number;
+}
+
+/** One step of a recorded workload. Paths are relative to the replay directory. */
+export type TraceEntry =
+  | { op: "write"; path: string; content: string }
+  | { op: "delete"; path: string }
+  | { op: "read"; path: string; offset?: number; limit?: number; force?: boolean };
+
+export interface BenchResult {
+  /** Tokenizer both totals are counted with */
+  tokenizer: string;
+  reads: number;
+  /** Tokens plain reads of the same lines would have returned */
+  baselineTokens: number;
+  /** Tokens cachebro returned */
+  returnedTokens: number;
+  byKind: Partial<Record<ReadEventKind, BenchTotals>>;
+}
+
+export interface BenchTotals {
+  reads: number;
+  baselineTokens: number;
+  returnedTokens: number;
+}
+
+export interface GcOptions {
+  /** Report what would be freed without deleting anything */
+  dryRun?: boolean;
+}
+
+export interface GcResult {
+  /** Whether this was a dry run */
+  dryRun: boolean;
+  /** Sessions whose read state was dropped */
+  sessionsExpired: number;
+  /** File versions removed */
+  versionsRemoved: number;
+  /** Read events dropped beyond RetentionPolicy.maxReadEvents */
+  eventsRemoved: number;
+  /** Database bytes freed (page count × page size, less free pages); an estimate from blob sizes in a dry run */
+  bytesFreed: number;
+  /** Database bytes in use after collection */
+  bytesRemaining: number;
+  /** Size of the database file, free pages included */
+  fileBytes: number;
 }
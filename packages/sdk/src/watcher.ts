@@ -19,11 +19,11 @@ export class FileWatcher {
       const watcher = watch(absPath, { recursive: true }, (event, filename) => {
         if (!filename) return;
         const filePath = resolve(absPath, filename);
+        // Before the check below, which may depend on the changed file
+        this.cache.onIgnoreFileChanged(filePath);
 
-        // Skip hidden files, node_modules, .git
-        if (filename.startsWith(".") || filename.includes("node_modules") || filename.includes(".git")) {
-          return;
-        }
+        // Skip what .gitignore, .cachebroignore and the built-in rules exclude
+        if (this.cache.ignoredBy(filePath)) return;
 
         // Debounce rapid changes to the same file
         const existing = this.debounceTimers.get(filePath);
@@ -0,0 +1,66 @@
+import { parseTrace, replayTrace, type TraceEntry } from "@turso/cachebro";
+
+const lines = Array.from({ length: 200 }, (_, i) => `export const value${i} = ${i};`);
+const edited = [...lines];
+edited[50] = "export const value50 = 500;";
+
+const trace: TraceEntry[] = [
+  { op: "write", path: "src/a.ts", content: lines.join("\n") },
+  { op: "write", path: "src/b.ts", content: "export const b = 1;\n" },
+  { op: "read", path: "src/a.ts" },
+  { op: "read", path: "src/b.ts" },
+  { op: "read", path: "src/a.ts" },
+  { op: "write", path: "src/a.ts", content: edited.join("\n") },
+  { op: "read", path: "src/a.ts" },
+  { op: "read", path: "src/a.ts", offset: 10, limit: 5 },
+  { op: "delete", path: "src/b.ts" },
+  { op: "read", path: "src/b.ts" },
+];
+
+// Test 1: Traces are parsed from JSONL, with the offending line named
+console.log("--- Test 1: Parse ---");
+const parsed = parseTrace(trace.map((e) => JSON.stringify(e)).join("\n") + "\n\n");
+console.assert(parsed.length === trace.length, `Expected ${trace.length} entries, got ${parsed.length}`);
+for (const [text, message] of [
+  ['{"op":"read","path":"a"}\nnot json', "Line 2: not valid JSON"],
+  ['{"op":"write","path":"a"}', 'Line 1: write needs "content"'],
+  ['{"op":"rename","path":"a"}', "Line 1: unknown op"],
+]) {
+  let error = "";
+  try {
+    parseTrace(text);
+  } catch (e: any) {
+    error = e.message;
+  }
+  console.assert(error.startsWith(message), `Expected "${message}", got "${error}"`);
+}
+
+// Test 2: Replay reports tokens against the no-cache baseline, per result kind
+console.log("\n--- Test 2: Replay ---");
+const result = await replayTrace(parsed, { tokenizer: "estimate" });
+console.log(`  ${JSON.stringify(result)}`);
+console.assert(result.tokenizer === "estimate" && result.reads === 6, "Six reads replayed");
+console.assert(result.byKind.full!.reads === 2 && result.byKind.unchanged!.reads === 2, "Two full reads, two unchanged");
+console.assert(result.byKind.diff!.reads === 1 && result.byKind.diff!.returnedTokens < result.byKind.diff!.baselineTokens / 10, "The edit comes back as a small diff");
+console.assert(result.byKind.error!.reads === 1 && result.byKind.error!.baselineTokens === 0, "Reading a deleted file fails either way");
+console.assert(result.byKind.full!.returnedTokens === result.byKind.full!.baselineTokens, "Full reads cost the same as plain reads");
+console.assert(result.returnedTokens < result.baselineTokens / 2, "Caching should more than halve this trace");
+
+// Test 3: Configurations can be compared on the same trace
+console.log("\n--- Test 3: Compare configurations ---");
+const stale = await replayTrace(parsed, { tokenizer: "estimate", staleness: { maxReadsSince: 1 } });
+console.log(`  default: ${result.returnedTokens}, stale after 1 read: ${stale.returnedTokens}`);
+console.assert(stale.baselineTokens === result.baselineTokens, "Baseline does not depend on the configuration");
+console.assert(stale.returnedTokens > result.returnedTokens, "Resending stale files costs more");
+
+// Test 4: Paths cannot leave the replay directory
+console.log("\n--- Test 4: Escaping paths ---");
+let escaped = "";
+try {
+  await replayTrace([{ op: "write", path: "../../outside.ts", content: "x" }]);
+} catch (e: any) {
+  escaped = e.message;
+}
+console.assert(escaped.includes("leaves the replay directory"), `Expected an error, got "${escaped}"`);
+
+console.log("\nAll bench tests passed!");
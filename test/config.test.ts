@@ -0,0 +1,113 @@
+import { computeDiff } from "@turso/cachebro";
+import { loadSettings, readConfigFile, CONFIG_FILE } from "../packages/cli/src/config.js";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_config");
+const XDG = join(TEST_DIR, "xdg");
+const PROJECT = join(TEST_DIR, "project");
+const NESTED = join(PROJECT, "packages", "app");
+const CLI = join(import.meta.dir, "..", "packages", "cli", "src", "index.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(join(XDG, "cachebro"), { recursive: true });
+mkdirSync(NESTED, { recursive: true });
+writeFileSync(join(XDG, "cachebro", "config.json"), JSON.stringify({
+  output: { tokenizer: "estimate", maxTokens: 8000 },
+  diff: { context: 5, maxLines: 2000 },
+  redaction: { builtin: false },
+}));
+writeFileSync(join(PROJECT, CONFIG_FILE), JSON.stringify({
+  cacheDir: ".cache/cachebro",
+  watch: { roots: ["packages"], debounceMs: 250 },
+  diff: { context: 1 },
+  ignore: { patterns: ["*.snap"] },
+}));
+
+const env = { XDG_CONFIG_HOME: XDG };
+
+// Test 1: Discovery from a subdirectory, and the project file over the user's
+console.log("--- Test 1: Discovery and merge ---");
+const s1 = loadSettings(NESTED, env);
+console.log(`  files: ${s1.files.join(", ")}`);
+console.assert(s1.files.length === 2 && s1.files[1] === join(PROJECT, CONFIG_FILE), "Should find both files, project last");
+console.assert(s1.cache.diff?.context === 1 && s1.cache.diff?.maxLines === 2000, "Objects merge key by key");
+console.assert(s1.cache.tokenizer === "estimate" && s1.cache.maxResponseTokens === 8000, "User settings apply where the project is silent");
+console.assert(s1.cache.redaction?.builtin === false, "Redaction can be configured");
+console.assert(s1.cache.ignore?.patterns?.[0] === "*.snap", "Ignore patterns come through");
+console.assert(s1.cache.watchDebounceMs === 250, "Watcher debounce comes through");
+
+// Test 2: Paths are relative to the file that names them
+console.log("\n--- Test 2: Relative paths ---");
+console.assert(s1.cacheDir === join(PROJECT, ".cache", "cachebro"), `cacheDir resolved against the project: ${s1.cacheDir}`);
+console.assert(s1.cache.watchPaths?.[0] === join(PROJECT, "packages"), "Watch roots resolved against the project");
+const bare = loadSettings(TEST_DIR, env);
+console.assert(bare.files.length === 1 && bare.cacheDir === join(TEST_DIR, ".cachebro"), "Without a project file the defaults apply");
+console.assert(bare.cache.watchPaths?.[0] === TEST_DIR, "The watch root defaults to cwd");
+
+// Test 3: The environment overrides both files
+console.log("\n--- Test 3: Environment ---");
+const s3 = loadSettings(NESTED, { ...env, CACHEBRO_DIR: "/tmp/elsewhere", CACHEBRO_TOKENIZER: "o200k", CACHEBRO_REDACT: "on", CACHEBRO_MAX_TOKENS: "0" });
+console.assert(s3.cacheDir === "/tmp/elsewhere", "CACHEBRO_DIR wins");
+console.assert(s3.cache.tokenizer === "o200k" && s3.cache.redaction?.builtin === true, "Env vars win over files");
+console.assert(s3.cache.maxResponseTokens === 0, "0 is a value, not unset");
+let envError = "";
+try {
+  loadSettings(NESTED, { ...env, CACHEBRO_MAX_TOKENS: "abc", CACHEBRO_TOKENIZER: "gpt2", CACHEBRO_ROOTS: "src" });
+} catch (e: any) {
+  envError = e.message;
+}
+console.log(envError);
+console.assert(envError.startsWith("environment: invalid configuration"), "Invalid variables fail like an invalid file");
+console.assert(envError.includes("  CACHEBRO_MAX_TOKENS:") && envError.includes("  CACHEBRO_TOKENIZER:"), "Should name each variable");
+console.assert(!envError.includes("CACHEBRO_ROOTS"), "Valid variables are not reported");
+
+// Test 4: Invalid files name the file and each problem
+console.log("\n--- Test 4: Validation ---");
+const bad = join(TEST_DIR, "bad.json");
+writeFileSync(bad, JSON.stringify({ diff: { context: -1 }, output: { tokenizer: "gpt2" }, watcher: {}, redaction: { patterns: { x: "(" } } }));
+let error = "";
+try {
+  readConfigFile(bad);
+} catch (e: any) {
+  error = e.message;
+}
+console.log(error);
+console.assert(error.startsWith(`${bad}: invalid configuration`), "Should name the file");
+for (const path of ["diff.context", "output.tokenizer", "redaction.patterns.x", "(top level)"]) {
+  console.assert(error.includes(`  ${path}:`), `Should report ${path}`);
+}
+writeFileSync(bad, "{ cacheDir: ");
+try {
+  readConfigFile(bad);
+  console.assert(false, "Broken JSON should throw");
+} catch (e: any) {
+  console.assert(e.message.includes("not valid JSON"), "Should say the JSON is broken");
+}
+
+// Test 5: Diff context reaches the differ
+console.log("\n--- Test 5: Diff context ---");
+const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n");
+const after = before.replace("line 10", "line ten");
+const narrow = computeDiff(before, after, "a.txt", { context: 1 });
+const wide = computeDiff(before, after, "a.txt");
+console.log(narrow.diff);
+console.assert(narrow.diff.includes("@@ -9,3 +9,3 @@") && !narrow.diff.includes("line 8"), "One line of context");
+console.assert(wide.diff.includes("@@ -7,7 +7,7 @@"), "Three lines by default");
+
+// Test 6: cachebro config show
+console.log("\n--- Test 6: config show ---");
+const cliEnv = { ...Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith("CACHEBRO_"))), ...env };
+const shown = Bun.spawnSync(["bun", CLI, "config", "show", "--json"], { cwd: NESTED, env: cliEnv });
+const json = JSON.parse(shown.stdout.toString());
+console.assert(json.files.length === 2 && json.cacheDir === join(PROJECT, ".cache", "cachebro"), "Shows the files and the resolved settings");
+console.assert(json.diff.context === 1 && json.watchPaths[0] === join(PROJECT, "packages"), "Shows the merged values");
+writeFileSync(join(PROJECT, CONFIG_FILE), JSON.stringify({ diff: { context: "three" } }));
+const failed = Bun.spawnSync(["bun", CLI, "config", "show"], { cwd: NESTED, env: cliEnv });
+console.assert(failed.exitCode === 1 && failed.stderr.toString().includes("diff.context"), "An invalid file ends the command with its problems");
+
+// Cleanup
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll config tests passed!");
@@ -0,0 +1,113 @@
+import { computeDiff } from "@turso/cachebro";
+
+// Deterministic PRNG so failures are reproducible
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x7fffffff;
+}
+
+function makeFile(lines: number): string[] {
+  return Array.from({ length: lines }, (_, i) => `  const v${i} = compute(${Math.floor(random() * 50)});`);
+}
+
+function mutate(lines: string[], edits: number): string[] {
+  const out = [...lines];
+  for (let e = 0; e < edits; e++) {
+    const at = Math.floor(random() * out.length);
+    const kind = random();
+    if (kind < 0.33) out.splice(at, 1);
+    else if (kind < 0.66) out.splice(at, 0, `  // inserted ${e}`);
+    else out[at] = `  const changed${e} = true;`;
+  }
+  return out;
+}
+
+/** The previous O(m·n) LCS implementation, kept as a reference for minimality. */
+function lcsLength(a: string[], b: string[]): number {
+  let prev = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Apply a unified diff produced by computeDiff to the old lines. */
+function applyDiff(oldLines: string[], diff: string): string[] {
+  const out: string[] = [];
+  let oldIdx = 0;
+  for (const line of diff.split("\n").slice(2)) {
+    const header = line.match(/^@@ -(\d+),(\d+) \+\d+,\d+ @@$/);
+    if (header) {
+      const start = Number(header[2]) === 0 ? Number(header[1]) : Number(header[1]) - 1;
+      while (oldIdx < start) out.push(oldLines[oldIdx++]);
+    } else if (line.startsWith("+")) {
+      out.push(line.slice(1));
+    } else if (line.startsWith("-")) {
+      oldIdx++;
+    } else {
+      out.push(oldLines[oldIdx++]);
+    }
+  }
+  while (oldIdx < oldLines.length) out.push(oldLines[oldIdx++]);
+  return out;
+}
+
+// Test 1: Output matches the LCS reference and round-trips
+console.log("--- Test 1: Minimal diffs that apply cleanly ---");
+for (let round = 0; round < 20; round++) {
+  const a = makeFile(50 + Math.floor(random() * 250));
+  const b = mutate(a, 1 + Math.floor(random() * 40));
+  const result = computeDiff(a.join("\n"), b.join("\n"), "file.ts");
+  const expected = a.length + b.length - 2 * lcsLength(a, b);
+  console.assert(result.linesChanged === expected, `Round ${round}: ${result.linesChanged} != minimal ${expected}`);
+  console.assert(applyDiff(a, result.diff).join("\n") === b.join("\n"), `Round ${round}: diff should reconstruct new file`);
+}
+console.log("  20 rounds ok");
+
+// Test 2: Speed against the reference on a mid-size file
+console.log("\n--- Test 2: Speed vs. LCS table ---");
+const mid = makeFile(3000);
+const midChanged = mutate(mid, 30);
+let t = performance.now();
+lcsLength(mid, midChanged);
+const lcsMs = performance.now() - t;
+t = performance.now();
+computeDiff(mid.join("\n"), midChanged.join("\n"), "mid.ts");
+const myersMs = performance.now() - t;
+console.log(`  LCS: ${lcsMs.toFixed(1)}ms, Myers: ${myersMs.toFixed(1)}ms`);
+console.assert(myersMs < lcsMs, "Myers should beat the quadratic table");
+
+// Test 3: 20k-line generated file with scattered edits
+console.log("\n--- Test 3: Large file ---");
+const large = makeFile(20000);
+const largeChanged = mutate(large, 200);
+t = performance.now();
+const r3 = computeDiff(large.join("\n"), largeChanged.join("\n"), "large.ts");
+const largeMs = performance.now() - t;
+console.log(`  ${r3.linesChanged} lines changed in ${largeMs.toFixed(1)}ms`);
+console.assert(!r3.budgetExceeded, "Should fit the default budget");
+console.assert(applyDiff(large, r3.diff).join("\n") === largeChanged.join("\n"), "Large diff should reconstruct new file");
+
+// Test 4: Budgets fall back instead of stalling
+console.log("\n--- Test 4: Budget fallback ---");
+const unrelatedA = Array.from({ length: 30000 }, (_, i) => `a${i}`).join("\n");
+const unrelatedB = Array.from({ length: 30000 }, (_, i) => `b${i % 7}`).join("\n");
+const bySize = computeDiff(unrelatedA, unrelatedB, "x.ts", { maxLines: 1000 });
+console.assert(bySize.budgetExceeded === true, "Size budget should be exceeded");
+console.assert(bySize.hasChanges, "Over-budget results still report changes");
+t = performance.now();
+const byTime = computeDiff(
+  Array.from({ length: 30000 }, (_, i) => `x${i % 3}`).join("\n"),
+  Array.from({ length: 30000 }, (_, i) => `x${(i * 7) % 5}`).join("\n"),
+  "y.ts",
+  { timeoutMs: 20, maxLines: 0 },
+);
+console.log(`  timeout result after ${(performance.now() - t).toFixed(1)}ms`);
+console.assert(byTime.budgetExceeded === true, "Time budget should be exceeded");
+
+console.log("\nAll differ benchmark tests passed!");
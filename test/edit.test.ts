@@ -0,0 +1,123 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, readFileSync, mkdirSync, rmSync, existsSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_edit");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE = join(TEST_DIR, "config.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+writeFileSync(FILE, `export const config = {
+  port: 3000,
+  host: "localhost",
+  debug: false,
+};
+`);
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-edit",
+});
+
+await cache.init();
+
+// Test 1: Editing after a read leaves the next read "unchanged"
+console.log("--- Test 1: Edit keeps read state in sync ---");
+await cache.readFile(FILE);
+const e1 = await cache.editFile(FILE, [{ oldString: "port: 3000", newString: "port: 8080" }]);
+console.log(`  content: ${e1.content}`);
+console.assert(e1.content.includes("1 replacement"), "Should report the replacement");
+console.assert(readFileSync(FILE, "utf-8").includes("port: 8080"), "Edit should be on disk");
+const r1 = await cache.readFile(FILE);
+console.log(`  read: ${r1.content}`);
+console.assert(r1.cached && r1.content.includes("unchanged"), "Own edit should not come back as a diff");
+
+// Test 2: Multi-edit applies in order, all or nothing
+console.log("\n--- Test 2: Multi-edit ---");
+const e2 = await cache.editFile(FILE, [
+  { oldString: "debug: false", newString: "debug: true" },
+  { oldString: "debug: true", newString: "debug: process.env.DEBUG === \"1\"" },
+]);
+console.assert(e2.content.includes("2 replacements"), "Should apply both edits");
+let threw = "";
+try {
+  await cache.editFile(FILE, [
+    { oldString: "host:", newString: "hostname:" },
+    { oldString: "no such text", newString: "x" },
+  ]);
+} catch (e: any) {
+  threw = e.message;
+}
+console.log(`  error: ${threw}`);
+console.assert(threw.includes("Edit 2: oldString not found"), "Should name the failing edit");
+console.assert(readFileSync(FILE, "utf-8").includes("host: "), "A failed edit should change nothing");
+
+// Test 3: Ambiguous matches need replaceAll
+console.log("\n--- Test 3: Ambiguous match ---");
+threw = "";
+try {
+  await cache.editFile(FILE, [{ oldString: "o", newString: "0" }]);
+} catch (e: any) {
+  threw = e.message;
+}
+console.assert(threw.includes("occurs") && threw.includes("replaceAll"), "Should reject non-unique oldString");
+const e3 = await cache.editFile(FILE, [{ oldString: "localhost", newString: "127.0.0.1", replaceAll: true }]);
+console.assert(e3.content.includes("1 replacement"), "replaceAll should work with a single match too");
+
+// Test 4: Outside changes since the last read are surfaced in the edit response
+console.log("\n--- Test 4: External changes ---");
+writeFileSync(FILE, readFileSync(FILE, "utf-8").replace("};", "  timeout: 30,\n};"));
+const e4 = await cache.editFile(FILE, [{ oldString: "port: 8080", newString: "port: 9090" }]);
+console.log(e4.content);
+console.assert(e4.externalDiff?.includes("+  timeout: 30,"), "Should show the outside change");
+console.assert(!e4.externalDiff?.includes("9090"), "The external diff should not include our own edit");
+const r4 = await cache.readFile(FILE);
+console.assert(r4.cached && r4.content.includes("unchanged"), "After seeing the external diff, the session is up to date");
+
+// Test 5: write_file creates files and directories and counts as read
+console.log("\n--- Test 5: Write new file ---");
+const NEW_FILE = join(TEST_DIR, "nested", "dir", "new.ts");
+const w5 = await cache.writeFile(NEW_FILE, "export const x = 1;\n");
+console.log(`  content: ${w5.content}`);
+console.assert(existsSync(NEW_FILE) && w5.content.includes("created"), "Should create the file");
+const r5 = await cache.readFile(NEW_FILE);
+console.assert(r5.cached && r5.content.includes("unchanged"), "Written file should read as unchanged");
+
+// Test 6: Editing a file the session never read does not mark it as read
+console.log("\n--- Test 6: Edit without read ---");
+const UNREAD = join(TEST_DIR, "unread.ts");
+writeFileSync(UNREAD, "const a = 1;\nconst b = 2;\n");
+await cache.editFile(UNREAD, [{ oldString: "const a = 1;", newString: "const a = 10;" }]);
+const r6 = await cache.readFile(UNREAD);
+console.assert(!r6.cached && r6.content.includes("const b = 2;"), "Unread file should be returned in full");
+
+// Test 7: CRLF files and legacy encodings are preserved
+console.log("\n--- Test 7: Line endings and encoding ---");
+const CRLF = join(TEST_DIR, "crlf.txt");
+writeFileSync(CRLF, "one\r\ntwo\r\nthree\r\n");
+await cache.editFile(CRLF, [{ oldString: "one\ntwo", newString: "one\n2" }]);
+console.assert(readFileSync(CRLF, "utf-8") === "one\r\n2\r\nthree\r\n", "CRLF should be matched and kept");
+const LATIN = join(TEST_DIR, "legacy.c");
+writeFileSync(LATIN, Buffer.from("/* caf\xe9 */\n", "latin1"));
+await cache.editFile(LATIN, [{ oldString: "café", newString: "café crème" }]);
+console.assert(readFileSync(LATIN).equals(Buffer.from("/* caf\xe9 cr\xe8me */\n", "latin1")), "Windows-1252 should be written back as such");
+
+// Test 8: Editing a file the session read only part of keeps that part in sync
+console.log("\n--- Test 8: Edit after a partial read ---");
+const LONG = join(TEST_DIR, "long.ts");
+writeFileSync(LONG, Array.from({ length: 100 }, (_, i) => `export const v${i + 1} = ${i + 1};`).join("\n"));
+await cache.readFile(LONG, { offset: 1, limit: 40 });
+await cache.editFile(LONG, [{ oldString: "export const v5 = 5;", newString: "export const v5 = 500;" }]);
+const r8 = await cache.readFile(LONG, { offset: 1, limit: 40 });
+console.log(`  read: ${r8.content}`);
+console.assert(r8.cached && r8.content.includes("unchanged") && r8.diff === undefined, "Own edit should not come back as a diff");
+const r8b = await cache.readFile(LONG, { maxTokens: 100_000 });
+console.assert(r8b.content.includes("lines 1-40 of 100 already sent") && r8b.content.includes("v41 = 41") && !r8b.content.includes("v5 = 500"), "Only the unseen lines follow");
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll edit tests passed!");
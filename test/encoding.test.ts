@@ -0,0 +1,103 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_encoding");
+const DB_PATH = join(TEST_DIR, "test.db");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-encoding",
+});
+
+await cache.init();
+
+// Test 1: PNG returns a summary, never bytes
+console.log("--- Test 1: Binary file summary ---");
+const PNG = join(TEST_DIR, "logo.png");
+writeFileSync(PNG, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 1, 2, 3]));
+const r1 = await cache.readFile(PNG);
+console.log(`  content: ${r1.content}`);
+console.assert(r1.binary, "Should be flagged binary");
+console.assert(!r1.cached, "First read should not be cached");
+console.assert(r1.content.includes("PNG image") && r1.content.includes("15 bytes"), "Should describe type and size");
+
+// Test 2: Binary re-reads report unchanged/changed
+console.log("\n--- Test 2: Binary change tracking ---");
+const r2 = await cache.readFile(PNG);
+console.log(`  content: ${r2.content}`);
+console.assert(r2.cached && r2.content.includes("unchanged"), "Should be unchanged");
+writeFileSync(PNG, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 9, 9]));
+const r2b = await cache.readFile(PNG);
+console.log(`  content: ${r2b.content}`);
+console.assert(!r2b.cached && r2b.content.includes("changed"), "Should report change");
+
+// Test 2b: The summary is not file content: search skips it, and text replacing it is not diffed
+console.log("\n--- Test 2b: Binary summaries are not content ---");
+console.assert((await cache.search("PNG image", { path: TEST_DIR })).files === 0, "Search should not find the summary");
+writeFileSync(PNG, Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join("\n"));
+const r2c = await cache.readFile(PNG);
+console.log(`  content: ${r2c.content.split("\n")[0]}`);
+console.assert(!r2c.cached && r2c.diff === undefined && r2c.content.startsWith("line 1\n"), "Text after binary is sent in full");
+writeFileSync(PNG, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 9, 9]));
+
+// Test 3: WebAssembly and unknown NUL-laden data
+console.log("\n--- Test 3: Other binary formats ---");
+const WASM = join(TEST_DIR, "mod.wasm");
+writeFileSync(WASM, Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]));
+const r3 = await cache.readFile(WASM);
+console.assert(r3.binary && r3.content.includes("WebAssembly"), "Should detect wasm");
+const BLOB = join(TEST_DIR, "data.bin");
+writeFileSync(BLOB, Buffer.from("abc\0def\0ghi"));
+const r3b = await cache.readFile(BLOB);
+console.assert(r3b.binary, "NUL bytes should mean binary");
+
+// Test 4: Latin-1 source is decoded, and diffs are readable
+console.log("\n--- Test 4: Latin-1 text ---");
+const LATIN = join(TEST_DIR, "legacy.c");
+// Enough unchanged lines that a diff is worth sending over the whole file
+const DECLS = Array.from({ length: 20 }, (_, i) => `int x${i} = ${i};\n`).join("");
+writeFileSync(LATIN, Buffer.from(`/* caf\xe9 */\n${DECLS}`, "latin1"));
+const r4 = await cache.readFile(LATIN);
+console.log(`  content: ${r4.content.split("\n")[0]}`);
+console.assert(!r4.binary, "Latin-1 should be text");
+console.assert(r4.content.includes("café"), "Should decode é");
+writeFileSync(LATIN, Buffer.from(`/* caf\xe9 cr\xe8me */\n${DECLS}`, "latin1"));
+const r4b = await cache.readFile(LATIN);
+console.log(`  diff:\n${r4b.diff}`);
+console.assert(r4b.diff!.includes("+/* café crème */"), "Diff should be decoded text");
+// Bytes Windows-1252 leaves undefined decode to control characters and are written back as they were
+const UNDEFINED = Buffer.concat([Buffer.from("/* caf\xe9 */\n", "latin1"), Buffer.from([0x81, 0x8d, 0x8f, 0x90, 0x9d, 0x0a]), Buffer.from(DECLS, "latin1")]);
+writeFileSync(LATIN, UNDEFINED);
+await cache.readFile(LATIN);
+await cache.editFile(LATIN, [{ oldString: "int x3 = 3;", newString: "int x3 = 30;" }]);
+console.assert(readFileSync(LATIN).equals(Buffer.from(UNDEFINED.toString("latin1").replace("int x3 = 3;", "int x3 = 30;"), "latin1")), "Undefined bytes should round-trip");
+
+// Test 5: UTF-16 with and without BOM
+console.log("\n--- Test 5: UTF-16 text ---");
+const U16 = join(TEST_DIR, "strings.txt");
+writeFileSync(U16, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("hello\nworld\n", "utf16le")]));
+const r5 = await cache.readFile(U16);
+console.assert(r5.content === "hello\nworld\n", "BOM UTF-16LE should decode");
+const U16_NOBOM = join(TEST_DIR, "strings2.txt");
+writeFileSync(U16_NOBOM, Buffer.from("plain utf-16 text without a byte order mark\n", "utf16le"));
+const r5b = await cache.readFile(U16_NOBOM);
+console.assert(!r5b.binary && r5b.content.startsWith("plain utf-16"), "BOM-less UTF-16LE should decode");
+
+// Test 6: UTF-8 BOM is stripped
+console.log("\n--- Test 6: UTF-8 BOM ---");
+const BOM = join(TEST_DIR, "bom.ts");
+writeFileSync(BOM, Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("export {};\n")]));
+const r6 = await cache.readFile(BOM);
+console.assert(r6.content === "export {};\n", "BOM should be stripped");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll encoding tests passed!");
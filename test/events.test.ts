@@ -0,0 +1,79 @@
+import { createCache, type ReadEvent } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync, readFileSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_events");
+const DB_PATH = join(TEST_DIR, "test.db");
+const LOG = join(TEST_DIR, "events.jsonl");
+const FILE_A = join(TEST_DIR, "src", "a.ts");
+const FILE_B = join(TEST_DIR, "b.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(join(TEST_DIR, "src"), { recursive: true });
+writeFileSync(FILE_A, "export const a = 1;\nexport const aa = 2;\nexport const aaa = 3;\n");
+writeFileSync(FILE_B, "export const b = 1;\n");
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-events",
+  tokenizer: "estimate",
+  eventLog: LOG,
+  retention: { maxReadEvents: 5 },
+});
+
+await cache.init();
+
+// Test 1: Every read is logged with what was asked and what came back
+console.log("--- Test 1: Events ---");
+const first = await cache.readFile(FILE_A);
+const second = await cache.readFile(FILE_A);
+writeFileSync(FILE_A, "export const a = 10;\nexport const aa = 2;\nexport const aaa = 3;\n");
+const third = await cache.readFile(FILE_A, { offset: 2, limit: 1 });
+await cache.readFileFull(FILE_B);
+try {
+  await cache.readFile(join(TEST_DIR, "missing.ts"));
+} catch {}
+const events = await cache.getReadEvents();
+console.log(`  ${JSON.stringify(events.map((e) => [e.kind, e.offset, e.limit, e.tokensReturned, e.tokensSaved]))}`);
+console.assert(events.map((e) => e.kind).join() === "full,unchanged,partial,forced,error", "Expected one event per read, in order");
+console.assert(!events[0].oldHash && events[0].newHash === first.hash, "First read has no previous version");
+console.assert(events[1].oldHash === first.hash && events[1].tokensSaved === second.tokensSaved && events[1].tokensSaved! > 0, "Unchanged read should record its savings");
+console.assert(events[2].offset === 2 && events[2].limit === 1 && events[2].oldHash === first.hash && events[2].newHash === third.hash, "Partial read records range and both versions");
+console.assert(events[4].error!.includes("missing.ts") && !events[4].newHash, "Failed read records the error");
+console.assert(events.every((e) => e.sessionId === "test-session-events" && e.timestamp > 0), "Events carry session and time");
+
+// Test 2: Filters
+console.log("\n--- Test 2: Filters ---");
+console.assert((await cache.getReadEvents({ path: "**/src/*.ts" })).length === 3, "Glob filter");
+console.assert((await cache.getReadEvents({ path: join(TEST_DIR, "src") })).length === 3, "Directory filter");
+console.assert((await cache.getReadEvents({ path: FILE_B })).length === 1, "File filter");
+console.assert((await cache.getReadEvents({ afterId: events[3].id })).length === 1, "afterId returns newer events only");
+const latest = await cache.getReadEvents({ limit: 2 });
+console.assert(latest.length === 2 && latest[1].kind === "error", "limit keeps the most recent");
+const other = createCache({ dbPath: DB_PATH, sessionId: "test-session-events-2", tokenizer: "estimate", eventLog: LOG });
+await other.cache.readFile(FILE_B);
+console.assert((await cache.getReadEvents({ sessionId: "test-session-events-2" })).length === 1, "Session filter");
+other.watcher.close();
+
+// Test 3: The JSONL log mirrors the table
+console.log("\n--- Test 3: JSONL log ---");
+const logged: ReadEvent[] = readFileSync(LOG, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+const all = await cache.getReadEvents();
+console.assert(logged.length === 6 && JSON.stringify(logged) === JSON.stringify(all), "Log lines should equal the stored events");
+
+// Test 4: gc keeps the newest events, in the table and the log
+console.log("\n--- Test 4: Retention ---");
+const dry = await cache.gc({ dryRun: true });
+console.assert(dry.eventsRemoved === 1 && (await cache.getReadEvents()).length === 6, "Dry run only counts");
+const result = await cache.gc();
+const kept = await cache.getReadEvents();
+console.assert(result.eventsRemoved === 1 && kept.length === 5 && kept[0].id === all[1].id, "Oldest event should be dropped");
+console.assert(readFileSync(LOG, "utf-8").trim().split("\n").length === 5, "Log should be trimmed too");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll events tests passed!");
@@ -0,0 +1,105 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_forget");
+const DB_PATH = join(TEST_DIR, "test.db");
+const PROJECT = join(TEST_DIR, "project");
+const FILE_A = join(PROJECT, "src", "a.ts");
+const FILE_B = join(PROJECT, "src", "b.ts");
+const FILE_C = join(PROJECT, "test", "c.test.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(join(PROJECT, "src"), { recursive: true });
+mkdirSync(join(PROJECT, "test"), { recursive: true });
+writeFileSync(FILE_A, "export const a = 1;\n");
+writeFileSync(FILE_B, "export const b = 2;\n");
+writeFileSync(FILE_C, "import { a } from '../src/a';\n");
+process.chdir(PROJECT);
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-forget",
+});
+
+await cache.init();
+for (const f of [FILE_A, FILE_B, FILE_C]) await cache.readFile(f);
+
+// Test 1: A forgotten file is returned in full on its next read
+console.log("--- Test 1: Forget one file ---");
+const forgotten = await cache.forgetFiles(["src/a.ts"]);
+console.log(`  forgotten: ${JSON.stringify(forgotten)}`);
+console.assert(forgotten.length === 1 && forgotten[0] === FILE_A, "Should forget exactly src/a.ts");
+const r1 = await cache.readFile(FILE_A);
+console.assert(!r1.cached && r1.content.includes("export const a = 1;"), "Forgotten file should come back in full");
+const r1b = await cache.readFile(FILE_B);
+console.assert(r1b.cached, "Other files should still be unchanged");
+
+// Test 2: A changed file that was forgotten is sent in full, not as a diff
+console.log("\n--- Test 2: Forget then change ---");
+writeFileSync(FILE_B, "export const b = 3;\n");
+await cache.forgetFiles([join(PROJECT, "src")]);
+const r2 = await cache.readFile(FILE_B);
+console.assert(!r2.cached && !r2.diff && r2.content.includes("export const b = 3;"), "Should send full content, not a diff");
+
+// Test 3: Globs, and patterns that match nothing
+console.log("\n--- Test 3: Globs ---");
+const g = await cache.forgetFiles(["test/**/*.ts"]);
+console.assert(g.length === 1 && g[0] === FILE_C, `Glob should match c.test.ts, got ${JSON.stringify(g)}`);
+const none = await cache.forgetFiles(["nothing/*.md"]);
+console.assert(none.length === 0, "Unmatched pattern should forget nothing");
+
+// Test 4: Outlines are forgotten too; stored versions are kept
+console.log("\n--- Test 4: Outlines and versions ---");
+await cache.readOutline(FILE_A);
+await cache.forgetFiles([FILE_A]);
+const o = await cache.readOutline(FILE_A);
+console.assert(!o.cached, "Forgotten outline should be rebuilt in full");
+const stats = await cache.getStats();
+console.assert(stats.filesTracked === 3, `Versions should survive forgetting, got ${stats.filesTracked}`);
+
+// Test 5: reset_session forgets everything but keeps the session's savings
+console.log("\n--- Test 5: Reset session ---");
+await cache.readFile(FILE_A);
+await cache.listDirectory(PROJECT);
+const savedBefore = (await cache.getStats()).sessionTokensSaved;
+const count = await cache.resetSession();
+console.log(`  reset ${count} files`);
+console.assert(count === 2, `Expected 2 files tracked before reset, got ${count}`);
+console.assert(!(await cache.readFile(FILE_A)).cached, "Files should be sent in full after a reset");
+console.assert(!(await cache.listDirectory(PROJECT)).cached, "Listings should be sent in full after a reset");
+console.assert((await cache.getStats()).sessionTokensSaved === savedBefore, "Reset should keep the session's stats");
+
+// Test 6: Staleness by reads since the file was sent
+console.log("\n--- Test 6: Stale after N reads ---");
+const byReads = createCache({ dbPath: DB_PATH, sessionId: "test-session-stale-reads", staleness: { maxReadsSince: 2 } });
+await byReads.cache.readFile(FILE_A);
+await byReads.cache.readFile(FILE_B);
+const s1 = await byReads.cache.readFile(FILE_A);
+console.assert(s1.cached, "One read in between is within the limit");
+await byReads.cache.readFile(FILE_B);
+await byReads.cache.readFile(FILE_C);
+const s2 = await byReads.cache.readFile(FILE_A);
+console.assert(!s2.cached && s2.content.includes("export const a = 1;"), "An unchanged re-read does not refresh the file; it should be stale");
+const s3 = await byReads.cache.readFile(FILE_A);
+console.assert(s3.cached, "Sending the file again refreshes it");
+byReads.watcher.close();
+
+// Test 7: Staleness by age
+console.log("\n--- Test 7: Stale after max age ---");
+// Loading a vocabulary to count the first response would outlast the 50ms age
+const byAge = createCache({ dbPath: DB_PATH, sessionId: "test-session-stale-age", staleness: { maxAgeMs: 50 }, tokenizer: "estimate" });
+await byAge.cache.readFile(FILE_A);
+console.assert((await byAge.cache.readFile(FILE_A)).cached, "A fresh read should be unchanged");
+await Bun.sleep(100);
+console.assert(!(await byAge.cache.readFile(FILE_A)).cached, "An old read should be sent in full");
+byAge.watcher.close();
+
+// Cleanup
+watcher.close();
+await cache.close();
+process.chdir(import.meta.dir);
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll forget tests passed!");
@@ -0,0 +1,121 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_gc");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE_PATH = join(TEST_DIR, "example.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+// The character estimate needs no vocabulary loading, which would outlast the 50ms TTL
+const { cache: old } = createCache({ dbPath: DB_PATH, sessionId: "test-session-old", tokenizer: "estimate" });
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-gc",
+  retention: { keepVersionsPerPath: 0, sessionTtlMs: 50 },
+  tokenizer: "estimate",
+});
+await old.init();
+await cache.init();
+
+// Build up history: three versions, the old session last saw v1
+writeFileSync(FILE_PATH, "v1\n");
+await old.readFile(FILE_PATH);
+writeFileSync(FILE_PATH, "v2\n");
+await cache.readFile(FILE_PATH);
+writeFileSync(FILE_PATH, "v3\n");
+await cache.readFile(FILE_PATH);
+
+// Test 1: Nothing expired yet — only v2 (referenced by nobody) is garbage
+console.log("--- Test 1: Unreferenced versions are collected ---");
+const dry = await cache.gc({ dryRun: true });
+console.log(`  ${JSON.stringify(dry)}`);
+console.assert(dry.dryRun, "Should be a dry run");
+console.assert(dry.sessionsExpired === 0, "No session should be expired yet");
+console.assert(dry.versionsRemoved === 1, "Only v2 should be removable");
+console.assert(dry.bytesFreed > 0, "Should report freed bytes");
+
+// Test 2: Dry run deleted nothing
+console.log("\n--- Test 2: Dry run is side-effect free ---");
+const again = await cache.gc({ dryRun: true });
+console.assert(again.versionsRemoved === 1, "Dry run should not have deleted v2");
+
+// Test 3: Idle sessions past the TTL expire, and their versions go with them
+console.log("\n--- Test 3: Session TTL ---");
+await new Promise((r) => setTimeout(r, 100));
+const real = await cache.gc();
+console.log(`  ${JSON.stringify(real)}`);
+console.assert(!real.dryRun, "Should not be a dry run");
+console.assert(real.sessionsExpired === 1, "Old session should expire, current one never does");
+console.assert(real.versionsRemoved === 2, "v1 and v2 should be removed");
+
+// Test 4: Old session lost its read state, current session did not
+console.log("\n--- Test 4: Read state after collection ---");
+const r4old = await old.readFile(FILE_PATH);
+console.assert(!r4old.cached, "Expired session should get full content");
+const r4 = await cache.readFile(FILE_PATH);
+console.assert(r4.cached, "Current session should still be cached");
+
+// Test 5: Size budget evicts least recently active sessions
+console.log("\n--- Test 5: Max database size ---");
+const { cache: tight } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-tight",
+  retention: { maxDbBytes: 1 },
+});
+await tight.init();
+const r5 = await tight.gc();
+console.log(`  ${JSON.stringify(r5)}`);
+console.assert(r5.sessionsExpired === 2, "Both other sessions should be evicted");
+console.assert(r5.bytesRemaining > 0 && r5.bytesRemaining <= r5.fileBytes, "The schema remains");
+
+// Test 6: Sessions with nothing but counters expire too
+console.log("\n--- Test 6: Sessions without reads ---");
+const GONE = join(TEST_DIR, "gone.ts");
+writeFileSync(GONE, "export const gone = 1;\n");
+const { cache: counted } = createCache({ dbPath: DB_PATH, sessionId: "test-session-counted", tokenizer: "estimate" });
+await counted.readFile(GONE);
+await counted.onFileDeleted(GONE);
+await counted.close();
+const { cache: sweeper } = createCache({ dbPath: DB_PATH, sessionId: "test-session-sweeper", retention: { sessionTtlMs: 1 } });
+console.assert((await sweeper.listSessions()).some((s) => s.sessionId === "test-session-counted"), "The session is listed");
+await new Promise((r) => setTimeout(r, 10));
+await sweeper.gc();
+console.assert(!(await sweeper.listSessions()).some((s) => s.sessionId === "test-session-counted"), "A session known only from its counters should expire");
+await sweeper.close();
+
+// Test 7: Collection frees pages, and refilling reuses them instead of growing the file
+console.log("\n--- Test 7: Database size ---");
+const bulk = Array.from({ length: 40 }, (_, i) => join(TEST_DIR, `bulk${i}.ts`));
+const fill = async (tag: string) => {
+  const { cache: filler } = createCache({ dbPath: DB_PATH, sessionId: `test-session-fill-${tag}`, tokenizer: "estimate" });
+  for (const [i, path] of bulk.entries()) {
+    writeFileSync(path, Array.from({ length: 400 }, (_, j) => `${tag} ${i} ${j} ${Math.random().toString(36)}`).join("\n"));
+    await filler.readFile(path);
+  }
+  await filler.close();
+};
+const { cache: collector } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-collector",
+  retention: { keepVersionsPerPath: 0, sessionTtlMs: 1 },
+});
+await fill("a");
+await new Promise((r) => setTimeout(r, 10));
+const collected = await collector.gc();
+console.log(`  freed ${collected.bytesFreed}, in use ${collected.bytesRemaining}, file ${collected.fileBytes}`);
+console.assert(collected.bytesFreed > 0 && collected.bytesRemaining < collected.fileBytes, "Used size should go down");
+await fill("b");
+const refilled = await collector.gc({ dryRun: true });
+console.assert(refilled.fileBytes <= collected.fileBytes * 1.1, `Freed pages should be reused: ${refilled.fileBytes} vs ${collected.fileBytes}`);
+await collector.close();
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll gc tests passed!");
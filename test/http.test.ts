@@ -0,0 +1,101 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_http");
+const FILE = join(TEST_DIR, "a.ts");
+const CLI = join(import.meta.dir, "../packages/cli/src/index.ts");
+const PORT = 20000 + Math.floor(Math.random() * 20000);
+const URL_MCP = new URL(`http://127.0.0.1:${PORT}/mcp`);
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+// Enough unchanged lines that a diff is worth sending over the whole file
+const REST = Array.from({ length: 20 }, (_, i) => `export const setting${i + 1} = ${i + 1};`).join("\n");
+writeFileSync(FILE, `export const a = 1;\n${REST}\n`);
+
+const server = Bun.spawn(["bun", CLI, "serve", "--http", String(PORT), "--idle-timeout", "2s"], {
+  cwd: TEST_DIR,
+  env: { ...process.env, CACHEBRO_DIR: join(TEST_DIR, ".cachebro"), CACHEBRO_TOKENIZER: "estimate" },
+  stderr: "pipe",
+});
+// The server announces itself on stderr once it is listening
+const reader = server.stderr.getReader();
+let banner = "";
+while (!banner.includes("serving MCP")) {
+  const { value, done } = await reader.read();
+  if (done) break;
+  banner += new TextDecoder().decode(value);
+}
+reader.releaseLock();
+
+const connect = async (name: string) => {
+  const client = new Client({ name, version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(URL_MCP);
+  await client.connect(transport);
+  return { client, transport };
+};
+const read = async (client: Client) => {
+  const result: any = await client.callTool({ name: "read_file", arguments: { path: FILE } });
+  return result.content[0].text as string;
+};
+
+try {
+  // Test 1: Each connection is its own session
+  console.log("--- Test 1: Sessions per connection ---");
+  const a = await connect("agent-a");
+  const b = await connect("agent-b");
+  console.assert(a.transport.sessionId && b.transport.sessionId && a.transport.sessionId !== b.transport.sessionId, "Each connection should get a session id");
+  console.assert((await read(a.client)).includes("export const a = 1;"), "First read by A is full");
+  console.assert((await read(a.client)).includes("unchanged"), "Second read by A is unchanged");
+  console.assert((await read(b.client)).includes("export const a = 1;"), "B has not seen the file: full content");
+
+  // Test 2: The shared store tracks each session under its Mcp-Session-Id
+  console.log("\n--- Test 2: Shared store ---");
+  writeFileSync(FILE, `export const a = 2;\n${REST}\n`);
+  const diff = await read(a.client);
+  console.assert(diff.includes("-export const a = 1;") && diff.includes("+export const a = 2;"), "A gets a diff after the change");
+  const manifest: any = await b.client.callTool({ name: "session_manifest", arguments: {} });
+  console.assert(manifest.content[0].text.includes(`session ${b.transport.sessionId}`), "B's manifest is for its own session");
+
+  // Test 3: Unknown sessions and foreign hosts are refused
+  console.log("\n--- Test 3: Refused requests ---");
+  const unknown = await fetch(URL_MCP, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", "Mcp-Session-Id": "nope" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+  });
+  console.assert(unknown.status === 404, `Unknown session should be 404, got ${unknown.status}`);
+  const rebound = await fetch(URL_MCP, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Host: "evil.example" },
+    body: "{}",
+  });
+  console.assert(rebound.status === 403, `Foreign Host header should be 403, got ${rebound.status}`);
+
+  // Test 4: A client that vanishes without a DELETE is closed once idle
+  console.log("\n--- Test 4: Idle sessions ---");
+  const post = (body: object, sessionId?: string) => fetch(URL_MCP, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}) },
+    body: JSON.stringify(body),
+  });
+  const init = await post({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "gone", version: "1.0.0" } } });
+  const gone = init.headers.get("mcp-session-id")!;
+  await init.text();
+  console.assert((await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, gone)).status === 200, "The session works while in use");
+  await Bun.sleep(4500);
+  console.assert((await post({ jsonrpc: "2.0", id: 3, method: "tools/list" }, gone)).status === 404, "The idle session should be gone");
+
+  await a.client.close();
+  await b.client.close();
+} finally {
+  // Cleanup
+  server.kill();
+  await server.exited;
+  rmSync(TEST_DIR, { recursive: true, force: true });
+}
+
+console.log("\nAll http tests passed!");
@@ -0,0 +1,115 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_ignore");
+const DB_PATH = join(TEST_DIR, "test.db");
+const PROJECT = join(TEST_DIR, "project");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+for (const dir of ["src", "dist", "coverage", ".github/workflows", "pkg/src", "pkg/generated"]) {
+  mkdirSync(join(PROJECT, dir), { recursive: true });
+}
+writeFileSync(join(PROJECT, ".gitignore"), "# build output\ndist/\ncoverage/\n*.log\n!keep.log\n!dist/keep.js\n");
+writeFileSync(join(PROJECT, ".cachebroignore"), "!coverage/\n");
+writeFileSync(join(PROJECT, "pkg", ".gitignore"), "/generated\n");
+writeFileSync(join(PROJECT, "src", "app.ts"), "export function verifyToken() {}\n");
+writeFileSync(join(PROJECT, "dist", "app.js"), "function verifyToken() {}\n");
+writeFileSync(join(PROJECT, "dist", "keep.js"), "keep\n");
+writeFileSync(join(PROJECT, "coverage", "lcov.info"), "verifyToken\n");
+writeFileSync(join(PROJECT, "debug.log"), "verifyToken\n");
+writeFileSync(join(PROJECT, "keep.log"), "kept\n");
+writeFileSync(join(PROJECT, ".github", "workflows", "ci.yml"), "on: push\n");
+writeFileSync(join(PROJECT, "foo.gitkeep"), "\n");
+writeFileSync(join(PROJECT, "pkg", "src", "index.ts"), "export {};\n");
+writeFileSync(join(PROJECT, "pkg", "generated", "types.ts"), "export {};\n");
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-ignore",
+  access: { roots: [PROJECT] },
+  tokenizer: "estimate",
+});
+await cache.init();
+
+// Test 1: Rules from nested ignore files, with negations
+console.log("--- Test 1: Ignore rules ---");
+const why = cache.ignoredBy(join(PROJECT, "dist", "app.js"));
+console.log(`  dist/app.js: ${JSON.stringify(why)}`);
+console.assert(why?.pattern === "dist/" && why.source === join(PROJECT, ".gitignore"), "Should name the rule and its file");
+console.assert(cache.ignoredBy(join(PROJECT, "debug.log")) !== undefined, "*.log matches at any depth");
+console.assert(cache.ignoredBy(join(PROJECT, "keep.log")) === undefined, "! re-includes a file");
+console.assert(cache.ignoredBy(join(PROJECT, "dist", "keep.js")) !== undefined, "Nothing inside an ignored directory comes back");
+console.assert(cache.ignoredBy(join(PROJECT, "coverage", "lcov.info")) === undefined, ".cachebroignore overrides .gitignore");
+console.assert(cache.ignoredBy(join(PROJECT, "pkg", "generated", "types.ts")) !== undefined, "Nested .gitignore applies below its directory");
+console.assert(cache.ignoredBy(join(PROJECT, "generated")) === undefined, "...and only there");
+console.assert(cache.ignoredBy(join(PROJECT, ".github", "workflows", "ci.yml")) === undefined, ".github is not .git");
+console.assert(cache.ignoredBy(join(PROJECT, "foo.gitkeep")) === undefined, "Neither is foo.gitkeep");
+console.assert(cache.ignoredBy(join(PROJECT, ".git", "HEAD"))?.source === "cachebro", ".git is always ignored");
+
+// Test 2: Listings and searches leave ignored files out
+console.log("\n--- Test 2: Listings and searches ---");
+const listing = await cache.listDirectory(PROJECT, { depth: 3 });
+console.log(listing.content);
+for (const path of ["src/app.ts", "keep.log", ".github/workflows/ci.yml", "foo.gitkeep", "coverage/", "pkg/src/index.ts"]) {
+  console.assert(listing.content.includes(path), `Listing should include ${path}`);
+}
+for (const path of ["dist/", "debug.log", "pkg/generated/"]) {
+  console.assert(!listing.content.includes(path), `Listing should leave out ${path}`);
+}
+const found = await cache.search("verifyToken", { path: PROJECT });
+console.log(found.content);
+console.assert(found.files === 2 && !found.content.includes("dist/") && !found.content.includes("debug.log"), "Only src/app.ts and coverage/lcov.info match");
+
+// Test 3: Changed ignore files take effect on the next call
+console.log("\n--- Test 3: Rule changes ---");
+writeFileSync(join(PROJECT, ".gitignore"), "coverage/\n*.log\n!keep.log\n# dist is tracked now, and a longer comment changes the size\n");
+console.assert(cache.ignoredBy(join(PROJECT, "dist", "app.js")) === undefined, "dist/ is no longer ignored");
+
+// Test 4: Reads ignore nothing unless asked to
+console.log("\n--- Test 4: Reads ---");
+const log = join(PROJECT, "debug.log");
+console.assert((await cache.readFile(log)).content.includes("verifyToken"), "Ignored files can still be read by default");
+const strict = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-ignore-reads",
+  access: { roots: [PROJECT] },
+  tokenizer: "estimate",
+  ignore: { reads: true, patterns: ["*.gitkeep"] },
+});
+const r4 = await strict.cache.readFile(log);
+console.log(`  ${r4.content}`);
+console.assert(!r4.cached && r4.hash === "" && r4.content.includes("ignored file") && r4.content.includes('"*.log"'), "Should answer with a label");
+const r4b = await strict.cache.readFileFull(join(PROJECT, "foo.gitkeep"));
+console.assert(r4b.content.includes('"*.gitkeep" in config'), "Configured patterns apply too");
+console.assert((await strict.cache.readFile(join(PROJECT, "src", "app.ts"))).content.includes("verifyToken"), "Other files read as usual");
+console.assert((await strict.cache.getSessionManifest()).files.length === 1, "Ignored reads are not tracked");
+strict.watcher.close();
+await strict.cache.close();
+
+// Test 5: Under a watched directory, rules are kept until the watcher sees the file change
+console.log("\n--- Test 5: Watched rules ---");
+const watched = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-ignore-watched",
+  watchPaths: [PROJECT],
+  watchDebounceMs: 10,
+  tokenizer: "estimate",
+});
+console.assert(watched.cache.ignoredBy(log)?.pattern === "*.log", "Rules read on first use");
+writeFileSync(join(PROJECT, ".gitignore"), "coverage/\n");
+await new Promise((r) => setTimeout(r, 300));
+console.assert(watched.cache.ignoredBy(log) === undefined, "The change event makes the rules read again");
+writeFileSync(join(PROJECT, "pkg", "src", ".cachebroignore"), "*.ts\n");
+await new Promise((r) => setTimeout(r, 300));
+console.assert(watched.cache.ignoredBy(join(PROJECT, "pkg", "src", "index.ts"))?.pattern === "*.ts", "A new ignore file is picked up");
+watched.watcher.close();
+await watched.cache.close();
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll ignore tests passed!");
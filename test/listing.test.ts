@@ -0,0 +1,107 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync, renameSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_listing");
+const DB_PATH = join(TEST_DIR, "test.db");
+const PROJECT = join(TEST_DIR, "project");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(join(PROJECT, "src", "lib"), { recursive: true });
+mkdirSync(join(PROJECT, "node_modules", "dep"), { recursive: true });
+writeFileSync(join(PROJECT, "package.json"), "{}\n");
+writeFileSync(join(PROJECT, "src", "index.ts"), "export {};\n");
+writeFileSync(join(PROJECT, "src", "util.ts"), "export {};\n");
+writeFileSync(join(PROJECT, "src", "lib", "math.ts"), "export {};\n");
+writeFileSync(join(PROJECT, "src", "lib", "README.md"), "# lib\n");
+writeFileSync(join(PROJECT, "node_modules", "dep", "index.js"), "\n");
+// Enough entries that a delta is cheaper than the full listing
+mkdirSync(join(PROJECT, "docs"));
+for (let i = 0; i < 40; i++) writeFileSync(join(PROJECT, "docs", `chapter-${i}.md`), "\n");
+
+// Rooted at the project, so this repository's own .gitignore does not apply
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-listing",
+  access: { roots: [PROJECT] },
+});
+
+await cache.init();
+
+// Test 1: Depth 1 lists only direct children, directories marked with "/"
+console.log("--- Test 1: Shallow listing ---");
+const r1 = await cache.listDirectory(PROJECT);
+console.log(r1.content);
+console.assert(!r1.cached, "First listing should not be cached");
+console.assert(r1.entries === 4, `Expected 4 entries, got ${r1.entries}`);
+console.assert(r1.content.includes("src/") && r1.content.includes("package.json"), "Should list children");
+console.assert(!r1.content.includes("index.ts"), "Should not descend at depth 1");
+
+// Test 2: Recursive listing skips the inside of node_modules
+console.log("\n--- Test 2: Recursive listing ---");
+const r2 = await cache.listDirectory(PROJECT, { depth: 5 });
+console.log(r2.content);
+console.assert(r2.content.includes("src/lib/math.ts"), "Should descend into src/lib");
+console.assert(r2.content.includes("node_modules/") && !r2.content.includes("dep/index.js"), "node_modules should be opaque");
+
+// Test 3: Glob filter
+console.log("\n--- Test 3: Glob filter ---");
+const r3 = await cache.listDirectory(PROJECT, { depth: 5, glob: "src/**/*.{ts,md}" });
+console.log(r3.content);
+console.assert(r3.entries === 4, `Expected 4 files under src, got ${r3.entries}`);
+const r3b = await cache.listDirectory(PROJECT, { depth: 5, glob: "*.md" });
+console.assert(r3b.entries === 41, `Expected 41 .md files, got ${r3b.entries}`);
+console.assert(!r3.content.includes("docs/") && !r3.content.includes("src/\n"), "Glob should list matching files only");
+
+// Test 4: Unchanged re-list
+console.log("\n--- Test 4: Unchanged ---");
+const r4 = await cache.listDirectory(PROJECT, { depth: 5 });
+console.log(`  content: ${r4.content}`);
+console.assert(r4.cached && r4.content.includes("unchanged"), "Should be unchanged");
+
+// Test 5: Added, removed and renamed entries
+console.log("\n--- Test 5: Tree diff ---");
+writeFileSync(join(PROJECT, "src", "new.ts"), "export {};\n");
+rmSync(join(PROJECT, "src", "util.ts"));
+renameSync(join(PROJECT, "src", "lib", "math.ts"), join(PROJECT, "src", "lib", "arith.ts"));
+const r5 = await cache.listDirectory(PROJECT, { depth: 5 });
+console.log(r5.content);
+console.assert(r5.cached, "Tree diff should count as cached");
+console.assert(r5.content.includes("+ src/new.ts"), "Should report the added file");
+console.assert(r5.content.includes("- src/util.ts"), "Should report the removed file");
+console.assert(r5.content.includes("~ src/lib/math.ts -> src/lib/arith.ts"), "Should report the rename");
+console.assert(!r5.content.includes("package.json"), "Unchanged entries should not be repeated");
+
+// Test 6: A renamed directory is reported once, not once per child
+console.log("\n--- Test 6: Directory rename ---");
+renameSync(join(PROJECT, "src", "lib"), join(PROJECT, "src", "shared"));
+const r6 = await cache.listDirectory(PROJECT, { depth: 5 });
+console.log(r6.content);
+console.assert(r6.content.includes("~ src/lib/ -> src/shared/"), "Should report the directory rename");
+console.assert(!r6.content.includes("arith.ts"), "Children should move with their directory");
+
+// Test 7: Listings with different options are tracked separately; force bypasses
+console.log("\n--- Test 7: Options and force ---");
+const r7 = await cache.listDirectory(PROJECT, { depth: 5, glob: "*.md" });
+console.log(r7.content);
+console.assert(r7.cached && r7.content.includes("~ src/lib/README.md -> src/shared/README.md"), "Glob listing should diff against its own snapshot");
+const r7b = await cache.listDirectory(PROJECT, { force: true });
+console.assert(!r7b.cached && r7b.content.includes("package.json"), "Force should return the full listing");
+
+// Test 8: Listing a file is an error
+console.log("\n--- Test 8: Not a directory ---");
+let threw = false;
+try {
+  await cache.listDirectory(join(PROJECT, "package.json"));
+} catch (e: any) {
+  threw = e.message.includes("Not a directory");
+}
+console.assert(threw, "Should reject files");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll listing tests passed!");
@@ -0,0 +1,77 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_manifest");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE_A = join(TEST_DIR, "a.ts");
+const FILE_B = join(TEST_DIR, "b.ts");
+const FILE_C = join(TEST_DIR, "c.ts");
+const BIG = join(TEST_DIR, "big.txt");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+writeFileSync(FILE_A, "export const a = 1;\n");
+writeFileSync(FILE_B, "export const b = 2;\nexport const bb = 3;\n");
+writeFileSync(FILE_C, "export const c = 4;\n");
+writeFileSync(BIG, Array.from({ length: 400 }, (_, i) => `line ${i + 1} of a long file`).join("\n"));
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-manifest",
+});
+
+await cache.init();
+
+// Test 1: An empty session has an empty manifest
+console.log("--- Test 1: Empty ---");
+const empty = await cache.getSessionManifest();
+console.assert(empty.sessionId === "test-session-manifest" && empty.files.length === 0, "Nothing read yet");
+
+// Test 2: Each read file is listed with its version and line count
+console.log("\n--- Test 2: Files read ---");
+await cache.readFile(FILE_A);
+await cache.readFile(FILE_B);
+await cache.readFile(FILE_C);
+await cache.readFile(BIG, { maxTokens: 500 });
+const m2 = await cache.getSessionManifest();
+console.log(`  ${JSON.stringify(m2.files.map((f) => [f.path, f.lines, f.status, f.partial]))}`);
+console.assert(m2.files.length === 4, `Expected 4 files, got ${m2.files.length}`);
+const b = m2.files.find((f) => f.path === FILE_B)!;
+console.assert(b.lines === 3 && b.status === "unchanged" && !b.partial && b.hash.length === 16, "b.ts should be fully seen and unchanged");
+console.assert(m2.files[0].path === BIG, "Most recently read file should come first");
+
+// Test 3: Partially read files report the lines seen
+console.log("\n--- Test 3: Partial reads ---");
+const big = m2.files.find((f) => f.path === BIG)!;
+console.assert(big.lines === 400, `Expected 400 lines, got ${big.lines}`);
+console.assert(big.partial !== undefined && big.partial[0][0] === 1 && big.partial[0][1] < 400, `Expected a leading page, got ${JSON.stringify(big.partial)}`);
+
+// Test 4: Changes and deletions on disk are reported without advancing the session
+console.log("\n--- Test 4: Changed and deleted ---");
+writeFileSync(FILE_A, "export const a = 10;\n");
+rmSync(FILE_C);
+const m4 = await cache.getSessionManifest();
+console.assert(m4.files.find((f) => f.path === FILE_A)!.status === "changed", "a.ts changed on disk");
+console.assert(m4.files.find((f) => f.path === FILE_C)!.status === "deleted", "c.ts was deleted");
+const r4 = await cache.readFile(FILE_A);
+console.assert(r4.form !== undefined && r4.linesChanged === 2, "The manifest should not have moved the session's pointer");
+
+// Test 5: Stale entries are flagged
+console.log("\n--- Test 5: Stale ---");
+const stale = createCache({ dbPath: DB_PATH, sessionId: "test-session-manifest-stale", staleness: { maxReadsSince: 1 } });
+await stale.cache.readFile(FILE_A);
+await stale.cache.readFile(FILE_B);
+await stale.cache.readFile(BIG);
+const m5 = await stale.cache.getSessionManifest();
+console.assert(m5.files.find((f) => f.path === FILE_A)!.stale === true, "a.ts was sent two reads ago");
+console.assert(!m5.files.find((f) => f.path === BIG)!.stale, "big.txt was just sent");
+stale.watcher.close();
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll manifest tests passed!");
@@ -0,0 +1,122 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_outline");
+const DB_PATH = join(TEST_DIR, "test.db");
+const TS_FILE = join(TEST_DIR, "auth.ts");
+const PY_FILE = join(TEST_DIR, "models.py");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+const TS_SOURCE = `import { hash } from "./crypto";
+import type { User } from "./types";
+
+export interface Session {
+  user: User;
+  expires: number;
+}
+
+export class AuthService {
+  private sessions = new Map<string, Session>();
+
+  login(user: User, password: string): Session | null {
+    if (hash(password) !== user.passwordHash) return null;
+    const session = { user, expires: Date.now() + 3600_000 };
+    this.sessions.set(user.id, session);
+    return session;
+  }
+
+  logout(userId: string): void {
+    this.sessions.delete(userId);
+  }
+}
+
+export const isExpired = (s: Session) => s.expires < Date.now();
+`;
+
+writeFileSync(TS_FILE, TS_SOURCE);
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-outline",
+});
+
+await cache.init();
+
+// Test 1: TS outline lists imports, exports and signatures without bodies
+console.log("--- Test 1: TypeScript outline ---");
+const r1 = await cache.readOutline(TS_FILE);
+console.log(r1.content);
+console.assert(!r1.cached, "First outline should not be cached");
+console.assert(r1.outline.imports.join(",") === "./crypto,./types", "Should list imports");
+console.assert(r1.outline.exports.includes("AuthService") && r1.outline.exports.includes("isExpired"), "Should list exports");
+const login = r1.outline.entries.find((e) => e.name === "AuthService.login");
+console.assert(login?.line === 12 && login.depth === 1, "login should be a member on line 12");
+console.assert(login?.signature === "login(user: User, password: string): Session | null", `Signature should drop the body, got: ${login?.signature}`);
+console.assert(!r1.content.includes("passwordHash"), "Outline should not include bodies");
+console.assert(r1.content.includes("export const isExpired = (s: Session) =>"), "Arrow functions keep their parameters");
+
+// Test 2: Unchanged file outlines as unchanged
+console.log("\n--- Test 2: Unchanged re-outline ---");
+const r2 = await cache.readOutline(TS_FILE);
+console.log(`  content: ${r2.content}`);
+console.assert(r2.cached && r2.content.includes("outline unchanged"), "Should be unchanged");
+
+// Test 3: Body-only edits leave the outline unchanged
+console.log("\n--- Test 3: Body-only change ---");
+writeFileSync(TS_FILE, TS_SOURCE.replace("this.sessions.delete(userId);", "this.sessions.delete(userId);\n    console.log(userId);"));
+const r3 = await cache.readOutline(TS_FILE);
+console.log(`  content: ${r3.content}`);
+console.assert(r3.cached && r3.content.includes("outline unchanged"), "Body edits should not change the outline");
+
+// Test 4: Signature changes, additions and removals are reported as a delta
+console.log("\n--- Test 4: Structural change ---");
+writeFileSync(TS_FILE, TS_SOURCE
+  .replace("logout(userId: string): void {", "logout(userId: string, reason?: string): void {")
+  .replace("export const isExpired = (s: Session) => s.expires < Date.now();", "export function refresh(s: Session): Session {\n  return { ...s, expires: Date.now() + 3600_000 };\n}")
+  .replace(`import type { User } from "./types";`, `import type { User } from "./types";\nimport { log } from "./log";`));
+const r4 = await cache.readOutline(TS_FILE);
+console.log(r4.content);
+console.assert(r4.cached, "Delta should count as cached");
+console.assert(r4.content.includes("imports added: ./log"), "Should report the new import");
+console.assert(r4.content.includes("+ ") && r4.content.includes("export function refresh(s: Session): Session"), "Should report the added function");
+console.assert(r4.content.includes("- isExpired"), "Should report the removed function");
+console.assert(r4.content.includes("was: logout(userId: string): void"), "Should show the old signature");
+console.assert(!r4.content.includes("login("), "Unchanged members should not be repeated");
+
+// Test 5: force returns the full outline
+console.log("\n--- Test 5: Force ---");
+const r5 = await cache.readOutline(TS_FILE, { force: true });
+console.assert(!r5.cached && r5.content.includes("login(user: User"), "Force should return the full outline");
+
+// Test 6: Heuristic outline for other languages
+console.log("\n--- Test 6: Python heuristic ---");
+writeFileSync(PY_FILE, `import os
+from typing import Optional
+
+# A comment, not a heading
+class User:
+    def __init__(self, name):
+        self.name = name
+
+    async def save(self) -> None:
+        pass
+
+def load(name: str) -> Optional[User]:
+    return None
+`);
+const r6 = await cache.readOutline(PY_FILE);
+console.log(r6.content);
+console.assert(r6.outline.imports.join(",") === "os,typing", "Should find Python imports");
+console.assert(r6.outline.entries.map((e) => e.name).join(",") === "User,User.__init__,User.save,load", "Should nest methods under the class");
+console.assert(r6.outline.entries.find((e) => e.name === "User.save")?.depth === 1, "Methods should be indented");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll outline tests passed!");
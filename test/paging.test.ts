@@ -0,0 +1,134 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_paging");
+const DB_PATH = join(TEST_DIR, "test.db");
+const BIG = join(TEST_DIR, "lockfile.json");
+const MINIFIED = join(TEST_DIR, "bundle.min.js");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+// 100 lines of 30 chars: ~24 tokens each with the newline
+writeFileSync(BIG, Array.from({ length: 100 }, (_, i) => `"package-${String(i).padStart(3, "0")}": "1.0.0-abc",`).join("\n"));
+writeFileSync(MINIFIED, Array.from({ length: 2000 }, (_, i) => `a${i}=b(${i});`).join(""));
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-paging",
+  maxResponseTokens: 1000,
+});
+
+await cache.init();
+
+// Test 1: Oversized first read is truncated with a continuation offset
+console.log("--- Test 1: Truncated first read ---");
+const r1 = await cache.readFile(BIG);
+console.log(`  truncated: ${r1.truncated}, nextOffset: ${r1.nextOffset}`);
+console.log(`  tail: ${r1.content.split("\n").pop()}`);
+console.assert(r1.truncated, "Should be truncated");
+console.assert(r1.nextOffset! > 1 && r1.nextOffset! < 100, "Should resume mid-file");
+console.assert(r1.content.includes(`offset=${r1.nextOffset}`), "Marker should give the offset");
+
+// Test 2: Continuing from the offset sends new lines, not "unchanged"
+console.log("\n--- Test 2: Continuation ---");
+const r2 = await cache.readFile(BIG, { offset: r1.nextOffset, maxTokens: 100_000 });
+console.log(`  cached: ${r2.cached}, truncated: ${r2.truncated}`);
+console.assert(!r2.content.includes("unchanged"), "Unseen lines must not be reported unchanged");
+console.assert(r2.content.includes("package-099"), "Should reach the end of the file");
+console.assert(!r2.truncated, "Should fit the larger budget");
+
+// Test 3: Everything has now been seen — a full read is unchanged
+console.log("\n--- Test 3: Full read after all pages ---");
+const r3 = await cache.readFile(BIG);
+console.log(`  content: ${r3.content}`);
+console.assert(r3.cached && r3.content.includes("unchanged"), "Should be unchanged");
+
+// Test 4: A full read after only the first page sends just the unseen pages
+console.log("\n--- Test 4: Full read sends only unseen pages ---");
+const { cache: other } = createCache({ dbPath: DB_PATH, sessionId: "test-session-paging-2", maxResponseTokens: 1000 });
+await other.init();
+const first = await other.readFile(BIG);
+const r4 = await other.readFile(BIG, { maxTokens: 100_000 });
+console.log(`  head: ${r4.content.split("\n")[0]}`);
+console.assert(r4.cached, "Should count as a cache hit");
+console.assert(r4.content.includes("already sent"), "Should say which lines were skipped");
+console.assert(!r4.content.includes("package-000"), "Should not resend the first page");
+console.assert(r4.content.includes(`package-${String(first.nextOffset! - 1).padStart(3, "0")}`), "Should start at the first unseen line");
+
+// Test 5: A single enormous line is cut mid-line
+console.log("\n--- Test 5: Minified single-line file ---");
+const r5 = await cache.readFile(MINIFIED);
+const cut = r5.content.split("\n")[0];
+const marker = r5.content.split("\n").pop()!;
+console.log(`  tail: ${marker}`);
+console.assert(r5.truncated, "Should be truncated");
+console.assert(marker.includes("cut after"), "Should say the line was cut");
+console.assert(cache.countTokens(cut) <= 1000 && cache.countTokens(cut) > 900, "The budget is counted with the configured tokenizer");
+const LONG_LINE = join(TEST_DIR, "long-line.js");
+writeFileSync(LONG_LINE, `${Array.from({ length: 400 }, (_, i) => `f${i}();`).join("")}\nconst a = 1;\nconst b = 2;`);
+const { cache: narrow } = createCache({ dbPath: DB_PATH, sessionId: "test-session-paging-cut", maxResponseTokens: 100 });
+const cut1 = await narrow.readFile(LONG_LINE);
+console.assert(cut1.truncated && cut1.nextOffset === 2, "The first line is cut");
+const cut2 = await narrow.readFile(LONG_LINE);
+console.log(`  re-read: ${cut2.content.split("\n").pop()}`);
+console.assert(!cut2.cached && !cut2.tokensSaved && cut2.content.startsWith("f0();"), "A cut line is not held, so nothing is saved");
+const cut3 = await narrow.readFile(LONG_LINE, { offset: 2 });
+const cut4 = await narrow.readFile(LONG_LINE);
+console.assert(cut3.content.includes("const b = 2;") && cut4.content.includes("lines 2-3 of 3 already sent") && cut4.content.includes("f0();"), "Only the later lines are held");
+await narrow.close();
+
+// Test 6: A partial read says nothing about lines outside it
+console.log("\n--- Test 6: Ranges never seen are not unchanged ---");
+const { cache: ranged } = createCache({ dbPath: DB_PATH, sessionId: "test-session-paging-3" });
+await ranged.init();
+await ranged.readFile(BIG, { offset: 1, limit: 20 });
+const r6 = await ranged.readFile(BIG, { offset: 50, limit: 10 });
+console.log(`  head: ${r6.content.split("\n")[0]}`);
+console.assert(!r6.cached && !r6.content.includes("unchanged"), "Lines 50-59 were never sent");
+console.assert(r6.content.includes("package-049") && r6.content.includes("package-058"), "Should send the requested lines");
+const r6b = await ranged.readFile(BIG, { offset: 5, limit: 10 });
+console.assert(r6b.cached && r6b.content.includes("unchanged"), "Lines 5-14 were sent by the first read");
+
+// Test 7: A full read after partial reads sends only the missing ranges
+console.log("\n--- Test 7: Full read after partial reads ---");
+const r7 = await ranged.readFile(BIG);
+console.log(`  head: ${r7.content.split("\n")[0]}`);
+console.assert(r7.cached && r7.content.includes("lines 1-20, 50-59 of 100 already sent"), "Should name the lines already sent");
+console.assert(!r7.content.includes("package-000") && !r7.content.includes("package-049"), "Should not resend seen lines");
+console.assert(r7.content.includes("package-020") && r7.content.includes("package-099"), "Should send the gaps");
+console.assert((await ranged.readFile(BIG)).content.includes("unchanged"), "Everything has now been seen");
+
+// Test 8: Seen ranges survive changes elsewhere in the file
+console.log("\n--- Test 8: Coverage across versions ---");
+const { cache: edits } = createCache({ dbPath: DB_PATH, sessionId: "test-session-paging-4" });
+await edits.init();
+await edits.readFile(BIG, { offset: 1, limit: 20 });
+const lines = Array.from({ length: 100 }, (_, i) => `"package-${String(i).padStart(3, "0")}": "1.0.0-abc",`);
+lines.splice(40, 0, `"inserted": "2.0.0",`);
+writeFileSync(BIG, lines.join("\n"));
+const r8 = await edits.readFile(BIG, { offset: 1, limit: 20 });
+console.assert(r8.cached && r8.content.includes("changes elsewhere"), "Lines 1-20 did not change");
+const [e8] = await edits.getReadEvents({ sessionId: "test-session-paging-4", limit: 1 });
+console.assert(e8.kind === "partial", `Changes elsewhere make a partial hit, not ${e8.kind}`);
+const r8b = await edits.readFile(BIG, { offset: 21, limit: 30 });
+console.assert(!r8b.cached && r8b.content.includes("inserted") && r8b.content.includes("package-020"), "Lines 21-50 were never sent");
+const r8c = await edits.readFile(BIG, { maxTokens: 100_000 });
+console.assert(r8c.content.includes("lines 1-50 of 101 already sent") && r8c.content.includes("package-099"), "Only lines 51-101 are missing");
+
+// Test 9: An offset past the end says so, whatever the session has seen
+console.log("\n--- Test 9: Offset beyond end of file ---");
+const r9 = await edits.readFile(BIG, { offset: 700, limit: 100 });
+console.log(`  ${r9.content}`);
+console.assert(!r9.cached && r9.content === "[cachebro: offset 700 beyond end of file (101 lines)]", "Should name the file length");
+const [e9] = await edits.getReadEvents({ sessionId: "test-session-paging-4", limit: 1 });
+console.assert(e9.kind !== "unchanged" && e9.tokensSaved === 0, "Not logged as a hit");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll paging tests passed!");
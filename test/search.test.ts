@@ -0,0 +1,122 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync, utimesSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_search");
+const DB_PATH = join(TEST_DIR, "test.db");
+const PROJECT = join(TEST_DIR, "project");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(join(PROJECT, "src"), { recursive: true });
+mkdirSync(join(PROJECT, "node_modules", "dep"), { recursive: true });
+writeFileSync(join(PROJECT, "src", "auth.ts"), `import { verifyToken } from "./token";
+
+export function login(token: string) {
+  if (!verifyToken(token)) throw new Error("bad token");
+  return true;
+}
+`);
+writeFileSync(join(PROJECT, "src", "token.ts"), `export function verifyToken(token: string): boolean {
+  return token.length > 0;
+}
+`);
+writeFileSync(join(PROJECT, "README.md"), "Call verifyToken before trusting a request.\n");
+writeFileSync(join(PROJECT, "node_modules", "dep", "index.js"), "verifyToken();\n");
+writeFileSync(join(PROJECT, "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x76, 0x65, 0x72]));
+// Unrelated files that should not be rescanned once indexed
+for (let i = 0; i < 20; i++) writeFileSync(join(PROJECT, "src", `util${i}.ts`), `export const value${i} = ${i};\n`);
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-search",
+});
+
+await cache.init();
+
+// Test 1: Literal search finds matches grouped by file
+console.log("--- Test 1: Literal search ---");
+const r1 = await cache.search("verifyToken", { path: PROJECT });
+console.log(r1.content);
+console.assert(!r1.cached, "First search should not be cached");
+console.assert(r1.matches === 4 && r1.files === 3, `Expected 4 matches in 3 files, got ${r1.matches} in ${r1.files}`);
+console.assert(r1.content.includes("src/auth.ts\n  1: import { verifyToken }"), "Should group matches under their file");
+console.assert(!r1.content.includes("node_modules"), "Should not search node_modules");
+console.assert(r1.filesScanned === 24, `Expected 24 files scanned, got ${r1.filesScanned}`);
+
+// Test 2: Same search again is unchanged and scans nothing
+console.log("\n--- Test 2: Repeat search ---");
+const r2 = await cache.search("verifyToken", { path: PROJECT });
+console.log(`  content: ${r2.content}`);
+console.assert(r2.cached && r2.content.includes("same 4 matches in 3 files, unchanged"), "Should be unchanged");
+console.assert(r2.filesScanned === 0, `Nothing should be rescanned, got ${r2.filesScanned}`);
+
+// Test 3: Only the matches that appeared or disappeared are reported
+console.log("\n--- Test 3: Incremental results ---");
+writeFileSync(join(PROJECT, "src", "auth.ts"), `import { verifyToken } from "./token";
+
+export function login(token: string) {
+  // Tokens are checked by verifyToken in middleware now
+  return true;
+}
+`);
+writeFileSync(join(PROJECT, "README.md"), "Call verifyToken before trusting a request.\nverifyToken is in src/token.ts.\n");
+const r3 = await cache.search("verifyToken", { path: PROJECT });
+console.log(r3.content);
+console.assert(r3.cached, "Delta should count as cached");
+console.assert(r3.filesScanned === 2, `Only the two edited files should be rescanned, got ${r3.filesScanned}`);
+console.assert(r3.content.includes("+ src/auth.ts") && r3.content.includes("checked by verifyToken"), "Should report the new match");
+console.assert(r3.content.includes("+   2: verifyToken is in src/token.ts."), "Should report the new README match");
+console.assert(r3.content.includes("- src/auth.ts:4:   if (!verifyToken(token))"), "Should report the match that disappeared");
+console.assert(!r3.content.includes("src/token.ts\n"), "Unchanged matches should not be repeated");
+
+// Test 4: Touching a file without changing it reuses the cached hits
+console.log("\n--- Test 4: Touched file ---");
+const later = new Date(Date.now() + 60_000);
+utimesSync(join(PROJECT, "src", "token.ts"), later, later);
+const r4 = await cache.search("verifyToken", { path: PROJECT });
+console.assert(r4.cached && r4.content.includes("unchanged"), "Touched file should not change results");
+console.assert(r4.filesScanned === 0, `Touched file should be matched by hash, got ${r4.filesScanned} scanned`);
+
+// Test 5: Regex, case sensitivity, glob and context
+console.log("\n--- Test 5: Options ---");
+const r5 = await cache.search("^export function \\w+", { path: PROJECT, regex: true, glob: "src/*.ts", context: 1 });
+console.log(r5.content);
+console.assert(r5.matches === 2, `Expected 2 regex matches, got ${r5.matches}`);
+console.assert(r5.content.includes("  2- ") && r5.content.includes("  4- "), "Should include context lines");
+const r5b = await cache.search("VERIFYTOKEN", { path: PROJECT, caseSensitive: true });
+console.assert(r5b.matches === 0 && r5b.content.includes("no matches"), "Case-sensitive search should not match");
+const r5c = await cache.search("verifyToken", { path: PROJECT, maxMatches: 2 });
+console.assert(r5c.matches === 2 && r5c.truncated, "Should stop at maxMatches");
+
+// Test 6: force returns the full result set
+console.log("\n--- Test 6: Force ---");
+const r6 = await cache.search("verifyToken", { path: PROJECT, force: true });
+console.assert(!r6.cached && r6.content.includes("src/token.ts\n  1: export function verifyToken"), "Force should return all matches");
+
+// Test 7: gc keeps hits for live queries and drops the rest
+console.log("\n--- Test 7: GC ---");
+await cache.gc();
+const r7 = await cache.search("verifyToken", { path: PROJECT });
+console.assert(r7.filesScanned === 0, "Hits for a remembered query should survive gc");
+
+// Test 8: Another session on the connection keeps its writes while a search stores its results
+console.log("\n--- Test 8: Concurrent sessions ---");
+writeFileSync(join(PROJECT, "src", "quote.ts"), "// don't trust 'tokens'\n");
+const other = cache.forSession("test-session-search-other");
+const files = Array.from({ length: 20 }, (_, i) => join(PROJECT, "src", `util${i}.ts`));
+const [r8] = await Promise.all([
+  cache.search("don't trust 'tokens'", { path: PROJECT }),
+  ...files.map((f) => other.readFile(f)),
+]);
+console.assert(r8.matches === 1, "Quotes survive the batch");
+console.assert((await cache.search("don't trust 'tokens'", { path: PROJECT })).filesScanned === 0, "The hits were stored");
+const reread = await Promise.all(files.map((f) => other.readFile(f)));
+console.assert(reread.every((r) => r.cached), "The other session's reads were all kept");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll search tests passed!");
@@ -0,0 +1,86 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_select");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE = join(TEST_DIR, "config.ts");
+
+const lines = Array.from({ length: 120 }, (_, i) => `export const setting${i + 1} = { enabled: true, weight: ${i + 1} };`);
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+writeFileSync(FILE, lines.join("\n"));
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-select",
+  watchPaths: [TEST_DIR],
+  tokenizer: "estimate",
+});
+await cache.init();
+await cache.readFile(FILE);
+
+// Test 1: A small change is sent as a diff with context
+console.log("--- Test 1: Diff ---");
+lines[59] = "export const setting60 = { enabled: false, weight: 60 };";
+writeFileSync(FILE, lines.join("\n"));
+const r1 = await cache.readFile(FILE);
+console.log(r1.content);
+console.assert(r1.form === "diff" && r1.cached && r1.diff !== undefined, "Should be a diff");
+console.assert(r1.content.startsWith("[cachebro: +1/-1 lines of 120, diff against the version you read before"), "Should say it is a patch");
+console.assert(r1.content.includes(" export const setting57 ="), "Should keep the context lines");
+
+// Test 2: Changes close together make context expensive; they go without it
+console.log("\n--- Test 2: Compact diff ---");
+for (let i = 0; i < lines.length; i += 5) lines[i] = lines[i].replace("enabled: true", "enabled: false");
+writeFileSync(FILE, lines.join("\n"));
+const r2 = await cache.readFile(FILE);
+console.log(r2.content.split("\n").slice(0, 8).join("\n"));
+console.assert(r2.form === "compact" && r2.cached, "Should be a diff without context");
+console.assert(r2.content.includes("diff without context lines") && !r2.content.includes(" setting2 ="), "No context lines");
+console.assert((r2.tokensSaved ?? 0) > 0, "Should save tokens");
+
+// Test 3: A reformat touches every line; the new content is cheaper than any diff
+console.log("\n--- Test 3: Replacement ---");
+const reformatted = lines.map((l) => l.replace("{ ", "{").replace(" }", "}"));
+writeFileSync(FILE, reformatted.join("\n"));
+const r3 = await cache.readFile(FILE);
+console.log(r3.content.split("\n").slice(0, 3).join("\n"));
+console.assert(r3.form === "replacement" && !r3.cached && r3.diff === undefined, "Should send the file in full");
+console.assert(r3.content.startsWith("[cachebro: +120/-120 lines of 120, full content follows, replacing the version you read before]\n"), "Should say it is a replacement");
+console.assert(r3.content.endsWith(reformatted[119]), "Should hold the whole new file");
+console.assert((await cache.readFile(FILE)).content.includes("unchanged"), "The replacement counts as read");
+const events = await cache.getReadEvents({ limit: 2 });
+console.assert(events[0].kind === "full", "Logged as a full read");
+
+// Test 4: The margin decides how much cheaper a patch must be
+console.log("\n--- Test 4: Margin ---");
+const strict = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-select-strict",
+  watchPaths: [TEST_DIR],
+  tokenizer: "estimate",
+  selection: { margin: 1 },
+});
+await strict.cache.readFile(FILE);
+writeFileSync(FILE, reformatted.join("\n").replace("weight: 1}", "weight: 0}"));
+const r4 = await strict.cache.readFile(FILE);
+console.assert(r4.form === "replacement" && r4.linesChanged === 2, "A margin of 1 never sends a patch");
+strict.watcher.close();
+await strict.cache.close();
+
+// Test 5: The label counts added and removed lines apart
+console.log("\n--- Test 5: Label ---");
+writeFileSync(FILE, reformatted.filter((_, i) => i < 10 || i > 12).join("\n"));
+const r5 = await cache.readFile(FILE);
+console.log(r5.content.split("\n")[0]);
+console.assert(r5.content.startsWith("[cachebro: +0/-3 lines of 117, diff against the version you read before"), "Removed lines are not counted against the new file");
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll select tests passed!");
@@ -0,0 +1,100 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync, existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_sessions");
+const CACHE_DIR = join(TEST_DIR, ".cachebro");
+const DB_PATH = join(CACHE_DIR, "cache.db");
+const FILE_A = join(TEST_DIR, "a.ts");
+const FILE_B = join(TEST_DIR, "b.ts");
+const CLI = join(import.meta.dir, "../packages/cli/src/index.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(CACHE_DIR, { recursive: true });
+writeFileSync(FILE_A, "export const a = 1;\n");
+writeFileSync(FILE_B, "export const b = 2;\n");
+
+const alpha = createCache({ dbPath: DB_PATH, sessionId: "alpha" });
+await alpha.cache.init();
+await alpha.cache.readFile(FILE_A);
+await alpha.cache.readFile(FILE_B);
+await alpha.cache.readFile(FILE_A); // unchanged, saves tokens
+alpha.watcher.close();
+await alpha.cache.close();
+
+const beta = createCache({ dbPath: DB_PATH, sessionId: "beta" });
+await beta.cache.init();
+await beta.cache.search("export", { path: TEST_DIR, glob: "*.ts" });
+
+// Test 1: list shows every session with files read, activity and tokens saved
+console.log("--- Test 1: List sessions ---");
+const list = await beta.cache.listSessions();
+console.log(`  ${JSON.stringify(list)}`);
+console.assert(list.length === 2 && list[0].sessionId === "beta", "Most recently active session should come first");
+const a = list.find((s) => s.sessionId === "alpha")!;
+console.assert(a.filesRead === 2 && a.tokensSaved > 0 && a.lastActivity > 0, "Should summarize alpha");
+const b = list.find((s) => s.sessionId === "beta")!;
+console.assert(b.filesRead === 0 && b.lastActivity > 0, "A session that only searched still has activity");
+
+// Test 2: show lists a session's files
+console.log("\n--- Test 2: Show session ---");
+const detail = await beta.cache.getSession("alpha");
+console.assert(detail?.files.length === 2 && detail.files.some((f) => f.path === FILE_B), "Should list alpha's files");
+console.assert((await beta.cache.getSession("nope")) === null, "Unknown sessions should be null");
+
+// Test 3: A named session resumes its read state after a restart
+console.log("\n--- Test 3: Resume by name ---");
+const again = createCache({ dbPath: DB_PATH, sessionId: "alpha" });
+await again.cache.init();
+const r3 = await again.cache.readFile(FILE_A);
+console.assert(r3.cached && r3.content.includes("unchanged"), "Restarted session should remember its reads");
+again.watcher.close();
+await again.cache.close();
+
+// Test 4: CLI lists sessions and records a resume request. The database is
+// locked while open, so the CLI gets its own, seeded by a separate process.
+console.log("\n--- Test 4: CLI ---");
+const CLI_DIR = join(TEST_DIR, "cli-cache");
+mkdirSync(CLI_DIR);
+Bun.spawnSync(["bun", "-e", `
+  const { createCache } = require("@turso/cachebro");
+  const { cache } = createCache({ dbPath: ${JSON.stringify(join(CLI_DIR, "cache.db"))}, sessionId: "feature-x" });
+  await cache.readFile(${JSON.stringify(FILE_A)});
+  process.exit(0);
+`], { cwd: import.meta.dir });
+const env = { ...process.env, CACHEBRO_DIR: CLI_DIR };
+const listed = Bun.spawnSync(["bun", CLI, "sessions", "list"], { env });
+const listOut = listed.stdout.toString();
+console.log(listOut);
+console.assert(listOut.includes("feature-x"), "CLI should list the session");
+const resumed = Bun.spawnSync(["bun", CLI, "sessions", "resume", "feature-x"], { env });
+console.assert(resumed.exitCode === 0, "Resume should succeed");
+console.assert(existsSync(join(CLI_DIR, "resume-session")) && readFileSync(join(CLI_DIR, "resume-session"), "utf-8").trim() === "feature-x", "Should write the resume marker");
+const missing = Bun.spawnSync(["bun", CLI, "sessions", "show", "nope"], { env });
+console.assert(missing.exitCode === 1, "Unknown session should fail");
+
+// Test 5: delete drops all of a session's state
+console.log("\n--- Test 5: Delete session ---");
+console.assert(await beta.cache.deleteSession("alpha"), "Delete should report success");
+console.assert(!(await beta.cache.deleteSession("alpha")), "Second delete should find nothing");
+console.assert((await beta.cache.listSessions()).length === 1, "Only beta should remain");
+
+// Test 6: prune never drops the current session
+console.log("\n--- Test 6: Prune ---");
+const gamma = createCache({ dbPath: DB_PATH, sessionId: "gamma" });
+await gamma.cache.init();
+await gamma.cache.readFile(FILE_A);
+const pruned = await beta.cache.pruneSessions(0);
+console.log(`  pruned: ${pruned}`);
+console.assert(pruned.length === 1 && pruned[0] === "gamma", "Should prune gamma but not the current session");
+gamma.watcher.close();
+await gamma.cache.close();
+
+// Cleanup
+beta.watcher.close();
+await beta.cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+console.assert(!existsSync(TEST_DIR), "Cleanup");
+
+console.log("\nAll sessions tests passed!");
@@ -10,7 +10,9 @@ const FILE_PATH = join(TEST_DIR, "example.ts");
 rmSync(TEST_DIR, { recursive: true, force: true });
 mkdirSync(TEST_DIR, { recursive: true });
 
-writeFileSync(FILE_PATH, `function hello() {\n  console.log("hello world");\n}\n`);
+// Enough unchanged lines that a diff is worth sending over the whole file
+const REST = Array.from({ length: 20 }, (_, i) => `export const setting${i + 1} = ${i + 1};`).join("\n");
+writeFileSync(FILE_PATH, `function hello() {\n  console.log("hello world");\n}\n${REST}\n`);
 
 const { cache, watcher } = createCache({
   dbPath: DB_PATH,
@@ -38,7 +40,7 @@ console.assert(r2.linesChanged === 0, "No lines should have changed");
 
 // Test 3: Modify file, read again — should return diff
 console.log("\n--- Test 3: Modified file (should return diff) ---");
-writeFileSync(FILE_PATH, `function hello() {\n  console.log("hello cachebro!");\n  return true;\n}\n`);
+writeFileSync(FILE_PATH, `function hello() {\n  console.log("hello cachebro!");\n  return true;\n}\n${REST}\n`);
 const r3 = await cache.readFile(FILE_PATH);
 console.log(`  cached: ${r3.cached}`);
 console.log(`  linesChanged: ${r3.linesChanged}`);
@@ -125,6 +127,29 @@ console.log(`  content: ${r9.content}`);
 console.assert(!r9.cached, "Should NOT be cached — changes inside requested range");
 console.assert(r9.content.includes("MODIFIED_IN_RANGE"), "Should include modified content");
 
+// Test 10: Partial read overlapping a change gets a diff of just that range
+console.log("\n--- Test 10: Range-scoped diff ---");
+const WIDE_FILE = join(TEST_DIR, "wide.ts");
+const wideLines = Array.from({ length: 200 }, (_, i) => `export const value${i + 1} = "${"x".repeat(40)}";`);
+writeFileSync(WIDE_FILE, wideLines.join("\n"));
+await cache.readFile(WIDE_FILE);
+wideLines[9] = "export const value10 = 'changed far away';";
+wideLines[99] = "export const value100 = 'changed in range';";
+writeFileSync(WIDE_FILE, wideLines.join("\n"));
+
+const r10 = await cache.readFile(WIDE_FILE, { offset: 80, limit: 40 });
+console.log(`  content: ${r10.content}`);
+console.assert(r10.cached && r10.diff !== undefined, "Should return a diff");
+console.assert(r10.content.includes("+export const value100 = 'changed in range';"), "Should include the change in range");
+console.assert(!r10.content.includes("changed far away"), "Should leave out hunks outside the range");
+console.assert(r10.content.includes("@@ -97,7 +97,7 @@"), "Hunk should keep file line numbers");
+console.assert(r10.linesChanged === 1, `Expected 1 changed line in range, got ${r10.linesChanged}`);
+const r10b = await cache.readFile(WIDE_FILE, { offset: 80, limit: 40 });
+console.assert(r10b.content.includes("unchanged"), "The range is now fully known");
+const r10c = await cache.readFile(WIDE_FILE, { offset: 5, limit: 10 });
+console.assert(r10c.content.includes("changed far away"), "The other change was never shown");
+console.assert(!r10c.content.includes("value5 = "), "Only the changed line is missing from lines 5-14");
+
 await cache2.close();
 
 // Cleanup
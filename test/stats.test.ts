@@ -0,0 +1,73 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_stats");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE_A = join(TEST_DIR, "a.ts");
+const FILE_B = join(TEST_DIR, "b.ts");
+const BIG = join(TEST_DIR, "big.txt");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+// Enough unchanged lines that a diff is worth sending over the whole file
+const REST = Array.from({ length: 20 }, (_, i) => `export const setting${i + 1} = ${i + 1};`).join("\n");
+writeFileSync(FILE_A, `export const a = 1;\nexport const aa = 2;\n${REST}\n`);
+writeFileSync(FILE_B, "export const b = 1;\n");
+writeFileSync(BIG, Array.from({ length: 400 }, (_, i) => `line ${i + 1} of a long file`).join("\n"));
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-stats",
+  tokenizer: "estimate",
+});
+
+await cache.init();
+
+// Test 1: Each read outcome has its own counter
+console.log("--- Test 1: Outcomes ---");
+await cache.readFile(FILE_A);
+await cache.readFile(FILE_A);
+writeFileSync(FILE_A, `export const a = 10;\nexport const aa = 2;\n${REST}\n`);
+await cache.readFile(FILE_A);
+await cache.readFile(FILE_B);
+await cache.readFileFull(FILE_B);
+await cache.readFile(BIG, { offset: 1, limit: 10 });
+await cache.readFile(BIG, { offset: 1, limit: 20 });
+try {
+  await cache.readFile(join(TEST_DIR, "missing.ts"));
+} catch {}
+const s1 = await cache.getStats();
+console.log(`  ${JSON.stringify(s1.sessionReads)}`);
+const r = s1.sessionReads;
+console.assert(r.full === 3 && r.unchanged === 1 && r.diff === 1 && r.forced === 1, "Expected 3 full, 1 unchanged, 1 diff, 1 forced");
+console.assert(r.partial === 1, `Expected 1 partial hit, got ${r.partial}`);
+console.assert(r.errors === 1, `Expected 1 error, got ${r.errors}`);
+
+// Test 2: Bytes returned against bytes on disk
+console.log("\n--- Test 2: Bytes ---");
+console.assert(r.bytesOnDisk > r.bytesReturned && r.bytesReturned > 0, `Cached reads should return fewer bytes than are on disk (${r.bytesReturned} / ${r.bytesOnDisk})`);
+
+// Test 3: Per-file rankings
+console.log("\n--- Test 3: Most read and most changed ---");
+console.log(`  ${JSON.stringify(s1.mostRead.map((f) => [f.path, f.reads, f.hits, f.changes]))}`);
+console.assert(s1.mostRead[0].path === FILE_A && s1.mostRead[0].reads === 3 && s1.mostRead[0].hits === 2, "a.ts was read most, with two cached reads");
+console.assert(s1.mostChanged.length === 1 && s1.mostChanged[0].path === FILE_A && s1.mostChanged[0].changes === 1, "Only a.ts changed between reads");
+
+// Test 4: Overall counters include every session; session counters don't
+console.log("\n--- Test 4: Sessions ---");
+const other = createCache({ dbPath: DB_PATH, sessionId: "test-session-stats-2", tokenizer: "estimate" });
+await other.cache.readFile(FILE_B);
+const s4 = await other.cache.getStats();
+console.assert(s4.sessionReads.full === 1 && s4.sessionReads.unchanged === 0, "New session should only count its own read");
+console.assert(s4.reads.full === 4 && s4.reads.forced === 1, `Overall counters should include both sessions, got ${JSON.stringify(s4.reads)}`);
+console.assert(s4.mostRead.find((f) => f.path === FILE_B)!.reads === 3, "File stats are shared across sessions");
+other.watcher.close();
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll stats tests passed!");
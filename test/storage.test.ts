@@ -0,0 +1,81 @@
+import { createCache } from "@turso/cachebro";
+import { connect } from "@tursodatabase/database";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_storage");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE_PATH = join(TEST_DIR, "example.ts");
+const COPY_PATH = join(TEST_DIR, "vendored-copy.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+// Enough unchanged lines that a diff is worth sending over the whole file
+const REST = Array.from({ length: 20 }, (_, i) => `export const setting${i + 1} = ${i + 1};`).join("\n");
+const original = `function hello() {\n  console.log("hello world");\n}\n${REST}\n`;
+writeFileSync(FILE_PATH, original);
+writeFileSync(COPY_PATH, original);
+
+// Test 1: Legacy databases (full text in file_versions) are migrated on init
+console.log("--- Test 1: Legacy schema migration ---");
+const legacy = await connect(DB_PATH);
+await legacy.exec(`
+CREATE TABLE file_versions (
+  path TEXT NOT NULL, hash TEXT NOT NULL, content TEXT NOT NULL,
+  lines INTEGER NOT NULL, created_at INTEGER NOT NULL, PRIMARY KEY (path, hash)
+);
+CREATE TABLE session_reads (
+  session_id TEXT NOT NULL, path TEXT NOT NULL, hash TEXT NOT NULL,
+  read_at INTEGER NOT NULL, PRIMARY KEY (session_id, path)
+);
+`);
+await legacy.prepare("INSERT INTO file_versions VALUES (?, ?, ?, ?, ?)").run(FILE_PATH, "legacyhash", `old content\n${REST}\n`, 22, 1);
+await legacy.prepare("INSERT INTO session_reads VALUES (?, ?, ?, ?)").run("test-session-storage", FILE_PATH, "legacyhash", 1);
+await legacy.close();
+
+const { cache, watcher } = createCache({ dbPath: DB_PATH, sessionId: "test-session-storage" });
+await cache.init();
+
+const r1 = await cache.readFile(FILE_PATH);
+console.log(`  cached: ${r1.cached}`);
+console.log(`  diff:\n${r1.diff}`);
+console.assert(r1.cached, "Should diff against the migrated version");
+console.assert(r1.diff!.includes("-old content"), "Diff should be computed from the legacy content");
+
+const db = await connect(DB_PATH);
+const columns = await db.prepare("PRAGMA table_info(file_versions)").all();
+console.assert(!columns.some((c: any) => c.name === "content"), "file_versions should no longer hold content");
+
+// Test 2: Identical content at two paths is stored once
+console.log("\n--- Test 2: Blobs are deduplicated across paths ---");
+await cache.readFile(COPY_PATH);
+const blobs = await db.prepare("SELECT COUNT(*) AS c FROM blobs").all();
+const refs = await db.prepare("SELECT COUNT(*) AS c FROM file_versions").all();
+console.log(`  blobs: ${(blobs[0] as any).c}, versions: ${(refs[0] as any).c}`);
+console.assert((blobs[0] as any).c === 2, "Legacy blob plus one shared blob");
+console.assert((refs[0] as any).c === 3, "Three path/hash references");
+
+// Test 3: Blobs are compressed
+console.log("\n--- Test 3: Blobs are compressed ---");
+const big = "export const value = 42;\n".repeat(2000);
+writeFileSync(FILE_PATH, big);
+const r3 = await cache.readFile(FILE_PATH);
+const sizes = await db.prepare("SELECT size, LENGTH(data) AS stored FROM blobs WHERE hash = ?").all(r3.hash);
+console.log(`  size: ${(sizes[0] as any).size}, stored: ${(sizes[0] as any).stored}`);
+console.assert((sizes[0] as any).stored < (sizes[0] as any).size / 10, "Repetitive content should compress well");
+
+// Test 4: gc removes blobs once nothing references them
+console.log("\n--- Test 4: Orphaned blobs are collected ---");
+await cache.gc();
+const after = await db.prepare("SELECT COUNT(*) AS c FROM blobs WHERE hash = 'legacyhash'").all();
+console.assert((after[0] as any).c === 0, "Legacy blob should be gone");
+
+// Cleanup
+await db.close();
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll storage tests passed!");
@@ -0,0 +1,99 @@
+import { createCache } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_symbols");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE_PATH = join(TEST_DIR, "service.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+
+const source = (header: string, body: string) => `${header}
+import { db } from "./db";
+
+/** Handles logins. */
+export class AuthService {
+  private secret = "x";
+
+  /** Log a user in. */
+  async login(user: string): Promise<boolean> {
+    ${body}
+  }
+
+  logout(): void {}
+}
+
+export const helpers = {
+  format(n: number) {
+    return n.toFixed(2);
+  },
+};
+
+export function outer() {
+  function inner() {
+    return 1;
+  }
+  return inner();
+}
+`;
+
+writeFileSync(FILE_PATH, source("// v1", "return db.check(user);"));
+
+const { cache, watcher } = createCache({
+  dbPath: DB_PATH,
+  sessionId: "test-session-symbols",
+});
+
+await cache.init();
+
+// Test 1: Dotted name returns just the method, with its JSDoc
+console.log("--- Test 1: Read a method ---");
+const r1 = await cache.readSymbol(FILE_PATH, "AuthService.login");
+console.log(`  ${JSON.stringify(r1.symbol)}`);
+console.log(`  content:\n${r1.content}`);
+console.assert(!r1.cached, "First read should not be cached");
+console.assert(r1.symbol.kind === "method", "Should be a method");
+console.assert(r1.content.includes("/** Log a user in. */"), "Should include JSDoc");
+console.assert(!r1.content.includes("logout"), "Should not include other members");
+
+// Test 2: Unchanged even though other parts of the file moved
+console.log("\n--- Test 2: Unchanged after unrelated edits ---");
+writeFileSync(FILE_PATH, source("// v2\n// a new comment pushing everything down", "return db.check(user);"));
+const r2 = await cache.readSymbol(FILE_PATH, "AuthService.login");
+console.log(`  content: ${r2.content}`);
+console.assert(r2.cached && r2.linesChanged === 0, "Should be unchanged");
+console.assert(r2.symbol.startLine === r1.symbol.startLine + 1, "Should report the new location");
+
+// Test 3: Changes inside the symbol come back as a diff or full text
+console.log("\n--- Test 3: Changed symbol ---");
+writeFileSync(FILE_PATH, source("// v2\n// a new comment pushing everything down", "return db.check(user) && db.active(user);"));
+const r3 = await cache.readSymbol(FILE_PATH, "AuthService.login");
+console.log(`  content:\n${r3.content}`);
+console.assert(r3.content.includes("db.active(user)"), "Should show the change");
+
+// Test 4: Nested names resolve without a path
+console.log("\n--- Test 4: Nested lookups ---");
+const r4 = await cache.readSymbol(FILE_PATH, "inner");
+console.log(`  ${JSON.stringify(r4.symbol)}`);
+console.assert(r4.symbol.name === "outer.inner", "Should qualify nested function");
+const r4b = await cache.readSymbol(FILE_PATH, "helpers.format");
+console.assert(r4b.symbol.kind === "method", "Object literal method");
+
+// Test 5: Unknown symbols list what is available
+console.log("\n--- Test 5: Missing symbol ---");
+try {
+  await cache.readSymbol(FILE_PATH, "Nope");
+  console.assert(false, "Should throw");
+} catch (e: any) {
+  console.log(`  error: ${e.message}`);
+  console.assert(e.message.includes("AuthService"), "Should list top-level declarations");
+}
+
+// Cleanup
+watcher.close();
+await cache.close();
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll symbol tests passed!");
@@ -0,0 +1,70 @@
+import { createCache, createTokenizer, estimateTokens, type Tokenizer } from "@turso/cachebro";
+import { writeFileSync, mkdirSync, rmSync } from "fs";
+import { join } from "path";
+
+const TEST_DIR = join(import.meta.dir, ".tmp_test_tokenizer");
+const DB_PATH = join(TEST_DIR, "test.db");
+const FILE = join(TEST_DIR, "indented.ts");
+
+// Setup
+rmSync(TEST_DIR, { recursive: true, force: true });
+mkdirSync(TEST_DIR, { recursive: true });
+// Whitespace-heavy code, where the character estimate is furthest off
+const content = Array.from({ length: 50 }, (_, i) => `${" ".repeat(16)}if (value${i} !== undefined) {\n${" ".repeat(20)}return value${i};\n${" ".repeat(16)}}`).join("\n");
+writeFileSync(FILE, content);
+
+// Test 1: Bundled presets count offline and disagree with the estimate
+console.log("--- Test 1: Presets ---");
+const cl100k = createTokenizer("cl100k").count(content);
+const o200k = createTokenizer("o200k").count(content);
+console.log(`  estimate: ${estimateTokens(content)}, cl100k: ${cl100k}, o200k: ${o200k}`);
+console.assert(cl100k > 0 && cl100k < estimateTokens(content) / 2, "BPE should count far fewer tokens than the estimate here");
+console.assert(o200k > 0, "o200k should count tokens");
+console.assert(createTokenizer("cl100k").count("hello world") === 2, "cl100k: 'hello world' is 2 tokens");
+console.assert(createTokenizer("cl100k").count("<|endoftext|>") > 1, "Special-token markers are counted as text");
+// Long unbroken runs are counted in linear time
+for (const run of ["a".repeat(100_000), " ".repeat(100_000), "=".repeat(100_000)]) {
+  const started = performance.now();
+  const tokens = createTokenizer("cl100k").count(`const blob = "${run}";`);
+  const elapsed = performance.now() - started;
+  console.log(`  ${JSON.stringify(run[0])} x 100k: ${tokens} tokens in ${elapsed.toFixed(0)}ms`);
+  console.assert(elapsed < 2000, `A 100k-character run should count quickly, took ${elapsed.toFixed(0)}ms`);
+  console.assert(tokens > 100_000 / 64 && tokens < 100_000, "The count should scale with the run's length");
+}
+let threw = false;
+try {
+  createTokenizer("gpt-9" as any);
+} catch (e: any) {
+  threw = e.message.includes("Unknown tokenizer");
+}
+console.assert(threw, "Unknown presets should be rejected");
+
+// Test 2: Savings are counted with the configured tokenizer
+console.log("\n--- Test 2: Savings use the tokenizer ---");
+const a = createCache({ dbPath: DB_PATH, sessionId: "tok-cl100k", tokenizer: "cl100k" });
+await a.cache.readFile(FILE);
+const r2 = await a.cache.readFile(FILE);
+console.log(`  content: ${r2.content}`);
+console.assert(r2.content.includes(`${cl100k} tokens saved`), "Unchanged label should report cl100k tokens");
+const s2 = await a.cache.getStats();
+console.assert(s2.tokenizer === "cl100k" && s2.sessionTokensSaved === cl100k && s2.tokensSaved === cl100k, "Stats should be in cl100k tokens");
+a.watcher.close();
+
+// Test 3: A custom tokenizer, stored separately from the others
+console.log("\n--- Test 3: Custom tokenizer and per-tokenizer stats ---");
+const words: Tokenizer = { name: "words", count: (text) => text.split(/\s+/).filter(Boolean).length };
+const b = createCache({ dbPath: DB_PATH, sessionId: "tok-words", tokenizer: words });
+await b.cache.readFile(FILE);
+await b.cache.readFile(FILE);
+const s3 = await b.cache.getStats();
+console.log(`  ${JSON.stringify(s3.tokensSavedByTokenizer)}`);
+console.assert(s3.tokenizer === "words" && s3.tokensSaved === words.count(content), "Totals should be in the current tokenizer");
+console.assert(s3.tokensSavedByTokenizer.cl100k === cl100k, "Earlier cl100k totals should be kept apart");
+const sessions = await b.cache.listSessions();
+console.assert(sessions.find((s) => s.sessionId === "tok-cl100k")!.tokensSaved === 0, "Session savings are reported in the current tokenizer only");
+b.watcher.close();
+
+// Cleanup
+rmSync(TEST_DIR, { recursive: true, force: true });
+
+console.log("\nAll tokenizer tests passed!");